@@ -0,0 +1,199 @@
+import { ResponseCache, type CacheFetcher } from './cache';
+import { MemoryStorage } from './storage';
+import type { HttpResponse } from './http-client';
+
+function response(data: unknown, headers: Record<string, string> = {}, status = 200): HttpResponse {
+  return { data, status, statusText: 'OK', headers };
+}
+
+/**
+ * Fetcher answering with `data` and recording the conditional headers of each call
+ */
+function fetcher(data: unknown, headers: Record<string, string> = {}) {
+  const calls: Array<Record<string, string>> = [];
+  const fetch: CacheFetcher = async (conditional) => {
+    calls.push(conditional);
+    return response(data, headers);
+  };
+  return { fetch, calls };
+}
+
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('ResponseCache', () => {
+  let now: number;
+
+  beforeEach(() => {
+    now = 1_000_000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('serves fresh entries until the route TTL passes', async () => {
+    const cache = new ResponseCache({ routes: [{ match: '/store', ttl: 1000 }] });
+    const { fetch, calls } = fetcher({ name: 'Shop' });
+
+    expect((await cache.fetch('GET /store', '/store', fetch)).cached).toBeUndefined();
+    now += 999;
+    expect(await cache.fetch('GET /store', '/store', fetch)).toMatchObject({ data: { name: 'Shop' }, cached: 'hit' });
+    now += 1;
+    expect((await cache.fetch('GET /store', '/store', fetch)).cached).toBeUndefined();
+    expect(calls).toHaveLength(2);
+  });
+
+  it('bypasses routes without a rule and responses marked no-store', async () => {
+    const cache = new ResponseCache({ routes: [{ match: '/products/**', ttl: 1000 }] });
+    const uncached = fetcher({ id: 1 });
+    const noStore = fetcher({ id: 2 }, { 'Cache-Control': 'no-store' });
+
+    await cache.fetch('GET /cart', '/cart', uncached.fetch);
+    await cache.fetch('GET /cart', '/cart', uncached.fetch);
+    await cache.fetch('GET /products/2', '/products/2', noStore.fetch);
+    await cache.fetch('GET /products/2', '/products/2', noStore.fetch);
+
+    expect(uncached.calls).toHaveLength(2);
+    expect(noStore.calls).toHaveLength(2);
+  });
+
+  it('revalidates with If-None-Match and If-Modified-Since and keeps the body on a 304', async () => {
+    const cache = new ResponseCache({ routes: [{ match: '/store', ttl: 0 }] });
+    const validators = { ETag: '"v1"', 'Last-Modified': 'Wed, 01 Jan 2025 00:00:00 GMT' };
+
+    await cache.fetch('GET /store', '/store', fetcher({ name: 'Shop' }, validators).fetch);
+
+    const conditional: Array<Record<string, string>> = [];
+    const revalidated = await cache.fetch('GET /store', '/store', async (headers) => {
+      conditional.push(headers);
+      return response(undefined, { ETag: '"v1"' }, 304);
+    });
+
+    expect(conditional).toEqual([{ 'If-None-Match': '"v1"', 'If-Modified-Since': 'Wed, 01 Jan 2025 00:00:00 GMT' }]);
+    expect(revalidated).toMatchObject({ data: { name: 'Shop' }, status: 200, cached: 'revalidated' });
+  });
+
+  it('serves stale data while revalidating in the background', async () => {
+    const cache = new ResponseCache({ routes: [{ match: '/store', ttl: 1000, staleWhileRevalidate: 5000 }] });
+    await cache.fetch('GET /store', '/store', fetcher({ name: 'Old' }).fetch);
+    now += 2000;
+
+    let release!: () => void;
+    const refreshed = new Promise<void>(resolve => { release = resolve; });
+    const refresh = jest.fn<ReturnType<CacheFetcher>, Parameters<CacheFetcher>>(async () => {
+      await refreshed;
+      return response({ name: 'New' });
+    });
+
+    expect(await cache.fetch('GET /store', '/store', refresh)).toMatchObject({ data: { name: 'Old' }, cached: 'stale' });
+    expect(await cache.fetch('GET /store', '/store', refresh)).toMatchObject({ data: { name: 'Old' }, cached: 'stale' });
+    release();
+    await flush();
+
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(await cache.fetch('GET /store', '/store', refresh)).toMatchObject({ data: { name: 'New' }, cached: 'hit' });
+  });
+
+  it('invalidates by tag, by mutation and through the checkout rule', async () => {
+    const cache = new ResponseCache({
+      routes: [
+        { match: '/products/**', ttl: 60_000 },
+        { match: '/featured-products', ttl: 60_000, tags: ['products'] },
+        { match: '/cart', ttl: 60_000 },
+        { match: '/categories', ttl: 60_000 }
+      ]
+    });
+    const load = async (path: string) => {
+      const { fetch, calls } = fetcher({ path });
+      await cache.fetch(`GET ${path}`, path, fetch);
+      return calls.length;
+    };
+
+    for (const path of ['/products/1', '/featured-products', '/cart', '/categories']) {
+      await load(path);
+    }
+
+    await cache.invalidateFor('POST', '/products/1/reviews');
+    expect(await load('/products/1')).toBe(1);
+    expect(await load('/featured-products')).toBe(1);
+    expect(await load('/cart')).toBe(0);
+
+    await cache.invalidateFor('POST', '/checkout');
+    expect(await load('/cart')).toBe(1);
+
+    await cache.invalidate('categories');
+    expect(await load('/categories')).toBe(1);
+  });
+
+  it('ignores an entry stored for a different request key', async () => {
+    const storage = new MemoryStorage();
+    const cache = new ResponseCache({ storage, routes: [{ match: '/store', ttl: 60_000 }] });
+    await cache.fetch('GET /store token=a', '/store', fetcher({ owner: 'a' }).fetch);
+
+    // Same slot, different request: what a cyrb53 collision looks like
+    const [slot] = storage.keys('cache:');
+    storage.set(slot, { ...storage.get(slot), key: 'another request' });
+
+    const { fetch, calls } = fetcher({ owner: 'a' });
+    expect((await cache.fetch('GET /store token=a', '/store', fetch)).cached).toBeUndefined();
+    expect(calls).toEqual([{}]);
+  });
+
+  it('evicts the least recently used entries beyond maxEntries', async () => {
+    const storage = new MemoryStorage();
+    const cache = new ResponseCache({ storage, maxEntries: 2, routes: [{ match: '/products/*', ttl: 60_000 }] });
+    const load = async (path: string) => {
+      const { fetch, calls } = fetcher({ path });
+      await cache.fetch(`GET ${path}`, path, fetch);
+      return calls.length;
+    };
+
+    await load('/products/1');
+    await load('/products/2');
+    await load('/products/1');
+    await load('/products/3');
+
+    expect(storage.keys('cache:')).toHaveLength(2);
+    expect(await load('/products/1')).toBe(0);
+    expect(await load('/products/2')).toBe(1);
+  });
+
+  it('sweeps entries past staleUntil unless a validator lets them revalidate', async () => {
+    const storage = new MemoryStorage();
+    const cache = new ResponseCache({ storage, routes: [{ match: '/products/*', ttl: 1000, staleWhileRevalidate: 1000 }] });
+
+    await cache.fetch('GET /products/1', '/products/1', fetcher({ id: 1 }).fetch);
+    await cache.fetch('GET /products/2', '/products/2', fetcher({ id: 2 }, { ETag: '"2"' }).fetch);
+    now += 2000;
+    await cache.fetch('GET /products/3', '/products/3', fetcher({ id: 3 }).fetch);
+
+    expect(storage.keys('cache:')).toHaveLength(2);
+    const { fetch, calls } = fetcher({ id: 2 });
+    await cache.fetch('GET /products/2', '/products/2', fetch);
+    expect(calls).toEqual([{ 'If-None-Match': '"2"' }]);
+  });
+});
+
+describe('MemoryStorage', () => {
+  it('returns copies', () => {
+    const storage = new MemoryStorage();
+    const value = { items: [1] };
+    storage.set('cart', value);
+    value.items.push(2);
+    storage.get('cart').items.push(3);
+
+    expect(storage.get('cart')).toEqual({ items: [1] });
+  });
+
+  it('drops the oldest writes beyond maxEntries', () => {
+    const storage = new MemoryStorage({ maxEntries: 2 });
+    storage.set('a', 1);
+    storage.set('b', 2);
+    storage.set('a', 3);
+    storage.set('c', 4);
+
+    expect(storage.keys()).toEqual(['a', 'c']);
+    expect(storage.get('a')).toBe(3);
+  });
+});
@@ -0,0 +1,321 @@
+/**
+ * Response Cache - Per-route TTLs, ETag/Last-Modified revalidation,
+ * stale-while-revalidate and tag-based invalidation for GET requests
+ */
+
+import type { HttpMethod, HttpResponse } from './http-client';
+import { resolveStorage, type StorageAdapter } from './storage';
+import { sha256Hex } from './digest';
+
+export interface CacheRule {
+  match: string | RegExp;         // Route path ('/products/**', '/store', '/products/*/reviews') or RegExp
+  ttl: number;                    // Fresh for this long (ms); 0 means always revalidate
+  staleWhileRevalidate?: number;  // Serve stale for this long (ms) while refreshing in the background
+  tags?: string[];                // Defaults to the first path segment ('/cart/summary' → 'cart')
+}
+
+export interface InvalidationRule {
+  match: string | RegExp;
+  methods?: HttpMethod[];         // Defaults to every mutating method
+  invalidates: string[];
+}
+
+export interface CacheConfig {
+  storage?: StorageAdapter | 'memory' | 'localStorage';
+  routes?: CacheRule[];           // Replaces DEFAULT_CACHE_ROUTES
+  invalidations?: InvalidationRule[]; // Added to the default "mutation invalidates its resource" rule
+  maxEntries?: number;            // Least recently used entries are evicted beyond this (default: 500)
+}
+
+interface CacheEntry {
+  key: string;                    // SHA-256 of the full request key, checked on read
+  response: HttpResponse;
+  expiresAt: number;
+  staleUntil: number;
+  etag?: string;
+  lastModified?: string;
+  tags: string[];
+}
+
+/**
+ * Fetch from the network, with conditional headers when a cached copy exists
+ */
+export type CacheFetcher = (conditionalHeaders: Record<string, string>) => Promise<HttpResponse>;
+
+const MINUTE = 60 * 1000;
+
+/**
+ * Public catalog data only; customer and cart routes are opt-in
+ */
+export const DEFAULT_CACHE_ROUTES: CacheRule[] = [
+  { match: '/store/**', ttl: 5 * MINUTE, staleWhileRevalidate: 60 * MINUTE },
+  { match: '/categories/**', ttl: 5 * MINUTE, staleWhileRevalidate: 60 * MINUTE },
+  { match: '/pages/**', ttl: 5 * MINUTE, staleWhileRevalidate: 60 * MINUTE },
+  { match: '/products/**', ttl: MINUTE, staleWhileRevalidate: 5 * MINUTE },
+  { match: '/featured-products', ttl: MINUTE, staleWhileRevalidate: 5 * MINUTE, tags: ['products'] },
+  { match: '/components/**', ttl: MINUTE, staleWhileRevalidate: 5 * MINUTE },
+  { match: '/reviews/**', ttl: MINUTE, staleWhileRevalidate: 5 * MINUTE }
+];
+
+const DEFAULT_INVALIDATIONS: InvalidationRule[] = [
+  // A completed checkout empties the cart
+  { match: '/checkout/**', methods: ['POST'], invalidates: ['cart'] }
+];
+
+const KEY_PREFIX = 'cache:';
+
+const DEFAULT_MAX_ENTRIES = 500;
+
+export class ResponseCache {
+  private storage: StorageAdapter;
+  private routes: Array<CacheRule & { pattern: RegExp }>;
+  private invalidations: Array<InvalidationRule & { pattern: RegExp }>;
+  private revalidating: Set<string> = new Set();
+  private maxEntries: number;
+  private index?: Promise<Map<string, number>>; // Storage key → when it may be swept, least recently used first
+
+  constructor(config: CacheConfig = {}) {
+    this.storage = resolveStorage(config.storage);
+    this.maxEntries = config.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.routes = (config.routes || DEFAULT_CACHE_ROUTES).map(rule => ({ ...rule, pattern: toPattern(rule.match) }));
+    this.invalidations = [...DEFAULT_INVALIDATIONS, ...(config.invalidations || [])]
+      .map(rule => ({ ...rule, pattern: toPattern(rule.match) }));
+  }
+
+  /**
+   * Serve a GET through the cache. `key` identifies the request (URL, headers, tokens),
+   * `path` is the route path used for rule matching.
+   */
+  async fetch(key: string, path: string, fetcher: CacheFetcher): Promise<HttpResponse> {
+    const rule = this.routes.find(r => r.pattern.test(path));
+    if (!rule) {
+      return fetcher({});
+    }
+
+    const storageKey = KEY_PREFIX + hashKey(key);
+    const digest = await sha256Hex(key);
+    const stored: CacheEntry | undefined = await this.storage.get(storageKey);
+    const entry = stored?.key === digest ? stored : undefined; // A different request whose key hashed to the same slot
+    const now = Date.now();
+
+    if (entry) {
+      await this.touch(storageKey, entry);
+    }
+
+    if (entry && now < entry.expiresAt) {
+      return { ...entry.response, cached: 'hit' };
+    }
+
+    if (entry && now < entry.staleUntil) {
+      this.revalidate(storageKey, digest, entry, rule, path, fetcher);
+      return { ...entry.response, cached: 'stale' };
+    }
+
+    return this.load(storageKey, digest, entry, rule, path, fetcher);
+  }
+
+  /**
+   * Drop every entry carrying one of the tags
+   */
+  async invalidate(tags: string | string[]): Promise<void> {
+    const wanted = Array.isArray(tags) ? tags : [tags];
+
+    for (const key of await this.storage.keys(KEY_PREFIX)) {
+      const entry: CacheEntry | undefined = await this.storage.get(key);
+      if (!entry || entry.tags.some(tag => wanted.includes(tag))) {
+        await this.remove(key);
+      }
+    }
+  }
+
+  /**
+   * Invalidate whatever a mutating request may have changed
+   */
+  async invalidateFor(method: HttpMethod, path: string): Promise<void> {
+    const tags = new Set<string>([defaultTag(path)]);
+
+    for (const rule of this.invalidations) {
+      if ((!rule.methods || rule.methods.includes(method)) && rule.pattern.test(path)) {
+        rule.invalidates.forEach(tag => tags.add(tag));
+      }
+    }
+
+    await this.invalidate(Array.from(tags));
+  }
+
+  async clear(): Promise<void> {
+    for (const key of await this.storage.keys(KEY_PREFIX)) {
+      await this.remove(key);
+    }
+  }
+
+  private async load(
+    storageKey: string,
+    digest: string,
+    entry: CacheEntry | undefined,
+    rule: CacheRule,
+    path: string,
+    fetcher: CacheFetcher
+  ): Promise<HttpResponse> {
+    const response = await fetcher(this.conditionalHeaders(entry));
+
+    if (response.status === 304 && entry) {
+      const headers = { ...entry.response.headers, ...response.headers };
+      await this.write(storageKey, this.createEntry(digest, { ...entry.response, headers }, rule, path));
+      return { ...entry.response, headers, cached: 'revalidated' };
+    }
+
+    const cacheControl = header(response.headers, 'cache-control') || '';
+    if (response.status === 200 && !cacheControl.includes('no-store')) {
+      await this.write(storageKey, this.createEntry(digest, response, rule, path));
+    }
+
+    return response;
+  }
+
+  private revalidate(
+    storageKey: string,
+    digest: string,
+    entry: CacheEntry,
+    rule: CacheRule,
+    path: string,
+    fetcher: CacheFetcher
+  ): void {
+    if (this.revalidating.has(storageKey)) {
+      return;
+    }
+
+    this.revalidating.add(storageKey);
+    this.load(storageKey, digest, entry, rule, path, fetcher)
+      .catch(() => undefined) // Keep serving stale data, the next read retries
+      .finally(() => this.revalidating.delete(storageKey));
+  }
+
+  private createEntry(digest: string, response: HttpResponse, rule: CacheRule, path: string): CacheEntry {
+    const now = Date.now();
+    const stored = { ...response };
+    delete stored.cached;
+
+    return {
+      key: digest,
+      response: stored,
+      expiresAt: now + rule.ttl,
+      staleUntil: now + rule.ttl + (rule.staleWhileRevalidate || 0),
+      etag: header(response.headers, 'etag'),
+      lastModified: header(response.headers, 'last-modified'),
+      tags: rule.tags || [defaultTag(path)]
+    };
+  }
+
+  /**
+   * Store an entry, then sweep stale entries and evict the least recently used beyond `maxEntries`
+   */
+  private async write(storageKey: string, entry: CacheEntry): Promise<void> {
+    await this.storage.set(storageKey, entry);
+
+    const index = await this.entries();
+    index.delete(storageKey);
+    index.set(storageKey, sweepAt(entry));
+
+    const now = Date.now();
+    for (const [key, at] of Array.from(index)) {
+      if ((at <= now && key !== storageKey) || index.size > this.maxEntries) {
+        await this.remove(key);
+      }
+    }
+  }
+
+  private async touch(storageKey: string, entry: CacheEntry): Promise<void> {
+    const index = await this.entries();
+    index.delete(storageKey);
+    index.set(storageKey, sweepAt(entry));
+  }
+
+  private async remove(storageKey: string): Promise<void> {
+    await this.storage.delete(storageKey);
+    (await this.entries()).delete(storageKey);
+  }
+
+  /**
+   * Recency index, seeded from entries persisted by an earlier session (oldest first)
+   */
+  private entries(): Promise<Map<string, number>> {
+    if (!this.index) {
+      this.index = (async () => {
+        const seeded: Array<[string, number]> = [];
+        for (const key of await this.storage.keys(KEY_PREFIX)) {
+          const entry: CacheEntry | undefined = await this.storage.get(key);
+          seeded.push([key, entry ? sweepAt(entry) : 0]);
+        }
+        return new Map(seeded.sort(([, a], [, b]) => (a < b ? -1 : a > b ? 1 : 0)));
+      })();
+    }
+    return this.index;
+  }
+
+  private conditionalHeaders(entry?: CacheEntry): Record<string, string> {
+    const headers: Record<string, string> = {};
+
+    if (entry?.etag) {
+      headers['If-None-Match'] = entry.etag;
+    }
+    if (entry?.lastModified) {
+      headers['If-Modified-Since'] = entry.lastModified;
+    }
+
+    return headers;
+  }
+}
+
+/**
+ * Glob to RegExp: `*` matches one path segment, `/**` any number of trailing segments
+ */
+function toPattern(match: string | RegExp): RegExp {
+  if (match instanceof RegExp) {
+    return match;
+  }
+
+  const escape = (value: string) => value.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+  const source = match
+    .split('/**')
+    .map(part => part.split('*').map(escape).join('[^/]*'))
+    .join('(?:/.*)?');
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Entries past `staleUntil` are swept unless an ETag or Last-Modified still lets them revalidate
+ */
+function sweepAt(entry: CacheEntry): number {
+  return entry.etag || entry.lastModified ? Infinity : entry.staleUntil;
+}
+
+function defaultTag(path: string): string {
+  return path.split('/').filter(Boolean)[0] || '';
+}
+
+function header(headers: Record<string, string>, name: string): string | undefined {
+  const key = Object.keys(headers || {}).find(k => k.toLowerCase() === name);
+  return key ? headers[key] : undefined;
+}
+
+/**
+ * cyrb53 - keeps auth/cart tokens out of persisted cache keys.
+ * Only picks the storage slot; entries carry the SHA-256 of the full key to rule out collisions.
+ */
+function hashKey(value: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+
+  for (let i = 0; i < value.length; i++) {
+    const ch = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
@@ -0,0 +1,70 @@
+import { canonicalQuery, canonicalRequest, pickSignedHeaders } from './canonical';
+
+describe('canonicalQuery', () => {
+  it('sorts by key, then value, in code unit order', () => {
+    expect(canonicalQuery('b=2&a=z&a=y&B=1&a=')).toBe('B=1&a=&a=y&a=z&b=2');
+  });
+
+  it.each([
+    ['q=a b', 'q=a%20b'],
+    ['q=a+b', 'q=a%20b'],
+    ['q=a%2Bb', 'q=a%2Bb'],
+    ["q=it's (50%25)*!", 'q=it%27s%20%2850%25%29%2A%21'],
+    ['q=-_.~', 'q=-_.~'],
+    ['tags[]=x', 'tags%5B%5D=x'],
+    ['q=%D8%B9%D8%B1%D8%A8%D9%8A', 'q=%D8%B9%D8%B1%D8%A8%D9%8A'],
+    ['q=caf%C3%A9', 'q=caf%C3%A9']
+  ])('encodes %s as %s (RFC 3986)', (query, canonical) => {
+    expect(canonicalQuery(query)).toBe(canonical);
+  });
+
+  it('gives the same result for every spelling of the same parameters', () => {
+    const params = new URLSearchParams();
+    params.append('q', 'a b');
+    params.append('page', '2');
+
+    expect(canonicalQuery(params)).toBe('page=2&q=a%20b');
+    expect(canonicalQuery('?q=a+b&page=2')).toBe('page=2&q=a%20b');
+    expect(canonicalQuery('page=2&q=a%20b')).toBe('page=2&q=a%20b');
+    expect(canonicalQuery('')).toBe('');
+  });
+});
+
+describe('canonicalRequest', () => {
+  it('builds the lines for an absolute URL', () => {
+    expect(canonicalRequest('get', 'https://API.Storefront.test:443/api/products?b=2&a=1', {
+      'Authorization': 'Bearer  abc ',
+      'X-Cart-Token': ' cart \t 1'
+    })).toEqual([
+      'GET',
+      'api.storefront.test',
+      '/api/products',
+      'a=1&b=2',
+      'authorization;x-cart-token',
+      'authorization:Bearer abc',
+      'x-cart-token:cart 1'
+    ]);
+  });
+
+  it('keeps a non-default port and leaves the host empty for a path', () => {
+    expect(canonicalRequest('POST', 'http://localhost:8080/api/cart')[1]).toBe('localhost:8080');
+    expect(canonicalRequest('POST', '/api/cart?x=1').slice(0, 5)).toEqual(['POST', '', '/api/cart', 'x=1', '']);
+  });
+});
+
+describe('pickSignedHeaders', () => {
+  it('keeps the signed headers present, lowercased and sorted', () => {
+    expect(pickSignedHeaders({
+      'X-Cart-Token': 'cart-1',
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+      'Idempotency-Key': 'k-1',
+      'Authorization': undefined
+    })).toEqual({ 'content-type': 'application/json', 'idempotency-key': 'k-1', 'x-cart-token': 'cart-1' });
+  });
+
+  it('lets a later spelling of the same header win', () => {
+    expect(pickSignedHeaders({ 'content-type': 'text/plain', 'Content-Type': 'application/json' }, ['Content-Type']))
+      .toEqual({ 'content-type': 'application/json' });
+  });
+});
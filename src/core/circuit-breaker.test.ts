@@ -0,0 +1,82 @@
+import { CircuitBreaker, type CircuitState } from './circuit-breaker';
+
+describe('CircuitBreaker', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2026-10-19T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('opens after consecutive failures and reports when to retry', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 3, cooldown: 10_000 });
+
+    breaker.onFailure();
+    breaker.onFailure();
+    breaker.onSuccess();
+    breaker.onFailure();
+    breaker.onFailure();
+    expect(breaker.getState()).toBe('closed');
+
+    breaker.onFailure();
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.tryAcquire()).toBe(false);
+    expect(breaker.getRetryAt()).toBe(Date.now() + 10_000);
+  });
+
+  it('lets halfOpenMaxRequests trial requests through after the cool-down', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldown: 1000, halfOpenMaxRequests: 2 });
+    breaker.onFailure();
+
+    jest.advanceTimersByTime(1000);
+
+    expect(breaker.getState()).toBe('half-open');
+    expect(breaker.getRetryAt()).toBeNull();
+    expect([breaker.tryAcquire(), breaker.tryAcquire(), breaker.tryAcquire()]).toEqual([true, true, false]);
+
+    breaker.release();
+    expect(breaker.tryAcquire()).toBe(true);
+  });
+
+  it('closes after successThreshold trials and reopens on a failed trial', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 1, cooldown: 1000, halfOpenMaxRequests: 2, successThreshold: 2 });
+    breaker.onFailure();
+    jest.advanceTimersByTime(1000);
+
+    breaker.tryAcquire();
+    breaker.onSuccess();
+    expect(breaker.getState()).toBe('half-open');
+    breaker.tryAcquire();
+    breaker.onSuccess();
+    expect(breaker.getState()).toBe('closed');
+
+    breaker.onFailure();
+    jest.advanceTimersByTime(1000);
+    breaker.tryAcquire();
+    breaker.onFailure();
+    expect(breaker.getState()).toBe('open');
+  });
+
+  it('emits every state change', () => {
+    const breaker = new CircuitBreaker({ failureThreshold: 2, cooldown: 1000 });
+    const changes: Array<{ from: CircuitState; to: CircuitState; failures: number }> = [];
+    const unsubscribe = breaker.on('stateChange', change => changes.push(change));
+
+    breaker.onFailure();
+    breaker.onFailure();
+    jest.advanceTimersByTime(1000);
+    breaker.getState();
+    breaker.reset();
+    unsubscribe();
+    breaker.onFailure();
+    breaker.onFailure();
+
+    expect(changes).toEqual([
+      { from: 'closed', to: 'open', failures: 2 },
+      { from: 'open', to: 'half-open', failures: 2 },
+      { from: 'half-open', to: 'closed', failures: 2 }
+    ]);
+  });
+});
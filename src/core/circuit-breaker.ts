@@ -0,0 +1,140 @@
+/**
+ * Circuit Breaker - Fail fast while the storefront API is down
+ * closed → open after consecutive failures, open → half-open after a cool-down,
+ * half-open → closed on successful trial requests (or back to open on failure)
+ */
+
+import { Emitter } from './emitter';
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerConfig {
+  failureThreshold?: number;    // Consecutive failures before opening (default: 5)
+  cooldown?: number;            // Time spent open before trial requests (ms, default: 30000)
+  halfOpenMaxRequests?: number; // Concurrent trial requests while half-open (default: 1)
+  successThreshold?: number;    // Successful trials needed to close again (default: 1)
+}
+
+export interface CircuitBreakerEvents {
+  stateChange: { from: CircuitState; to: CircuitState; failures: number };
+}
+
+export class CircuitBreaker extends Emitter<CircuitBreakerEvents> {
+  private config: Required<CircuitBreakerConfig>;
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private successes = 0;
+  private trials = 0;
+  private openedAt = 0;
+
+  constructor(config: CircuitBreakerConfig = {}) {
+    super();
+    this.config = {
+      failureThreshold: 5,
+      cooldown: 30000,
+      halfOpenMaxRequests: 1,
+      successThreshold: 1,
+      ...config
+    };
+  }
+
+  getState(): CircuitState {
+    if (this.state === 'open' && Date.now() - this.openedAt >= this.config.cooldown) {
+      this.transition('half-open');
+    }
+    return this.state;
+  }
+
+  /**
+   * When the circuit opened requests are allowed again (null unless open)
+   */
+  getRetryAt(): number | null {
+    return this.getState() === 'open' ? this.openedAt + this.config.cooldown : null;
+  }
+
+  /**
+   * Ask permission to send a request. Every granted request must be settled
+   * with `onSuccess`, `onFailure` or `release`.
+   */
+  tryAcquire(): boolean {
+    const state = this.getState();
+
+    if (state === 'open') {
+      return false;
+    }
+    if (state === 'half-open') {
+      if (this.trials >= this.config.halfOpenMaxRequests) {
+        return false;
+      }
+      this.trials++;
+    }
+
+    return true;
+  }
+
+  onSuccess(): void {
+    if (this.state === 'half-open') {
+      this.trials = Math.max(0, this.trials - 1);
+      this.successes++;
+
+      if (this.successes >= this.config.successThreshold) {
+        this.transition('closed');
+      }
+      return;
+    }
+
+    this.failures = 0;
+  }
+
+  onFailure(): void {
+    if (this.state === 'half-open') {
+      this.trials = Math.max(0, this.trials - 1);
+      this.failures++;
+      this.transition('open');
+      return;
+    }
+
+    this.failures++;
+    if (this.state === 'closed' && this.failures >= this.config.failureThreshold) {
+      this.transition('open');
+    }
+  }
+
+  /**
+   * Settle a granted request without a verdict (e.g. the caller aborted it)
+   */
+  release(): void {
+    if (this.state === 'half-open') {
+      this.trials = Math.max(0, this.trials - 1);
+    }
+  }
+
+  /**
+   * Force the circuit closed
+   */
+  reset(): void {
+    this.transition('closed');
+  }
+
+  private transition(to: CircuitState): void {
+    const from = this.state;
+    if (from === to) {
+      return;
+    }
+
+    this.state = to;
+    this.successes = 0;
+    this.trials = 0;
+
+    if (to === 'open') {
+      this.openedAt = Date.now();
+    }
+
+    const failures = this.failures;
+    if (to === 'closed') {
+      this.failures = 0;
+    }
+
+    this.emit('stateChange', { from, to, failures });
+  }
+}
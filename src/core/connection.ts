@@ -0,0 +1,232 @@
+/**
+ * Connection - Keep-alive pooling, proxies and TLS trust for Node.js
+ * Builds an undici dispatcher for the fetch path and http(s) agents for the axios path
+ */
+
+import { Environment } from './environment';
+import { noopLogger, type Logger } from './logger';
+
+export interface ConnectionConfig {
+  keepAlive?: boolean; // Reuse sockets between requests (default: true)
+  keepAliveTimeout?: number; // Idle time in ms before a pooled socket is closed (default: 4000)
+  maxSockets?: number; // Concurrent sockets per origin (default: unlimited)
+  proxy?: string | false; // Proxy URL (default: HTTPS_PROXY / HTTP_PROXY); false ignores the environment
+  noProxy?: string; // Comma-separated hosts that bypass the proxy (default: NO_PROXY)
+  ca?: string | string[]; // Extra trusted CA certificates (PEM), added to the system roots
+  rejectUnauthorized?: boolean; // Verify server certificates (default: true)
+  dispatcher?: unknown; // Your own undici dispatcher for the fetch path; replaces the options above
+}
+
+/**
+ * Options passed to axios for a request
+ */
+export interface AxiosConnectionOptions {
+  httpAgent?: unknown;
+  httpsAgent?: unknown;
+  proxy: false | { protocol: string; host: string; port: number; auth?: { username: string; password: string } };
+}
+
+const DEFAULT_KEEP_ALIVE_TIMEOUT = 4000;
+
+export class ConnectionManager {
+  private config: ConnectionConfig;
+  private logger: Logger;
+  private dispatchers: Map<string, unknown> = new Map(); // Keyed by proxy URL ('' = direct)
+  private agents?: { httpAgent: unknown; httpsAgent: unknown };
+  private undiciMissing = false;
+
+  constructor(config: ConnectionConfig = {}, logger: Logger = noopLogger) {
+    this.config = config;
+    this.logger = logger;
+  }
+
+  /**
+   * Extra RequestInit fields for fetch (`dispatcher`); empty outside Node.js or without undici
+   */
+  fetchOptions(url: string): { dispatcher?: unknown } {
+    if (this.config.dispatcher) {
+      return { dispatcher: this.config.dispatcher };
+    }
+    if (!Environment.info.isNode) {
+      return {};
+    }
+
+    const proxy = this.proxyFor(url) || '';
+    let dispatcher = this.dispatchers.get(proxy);
+
+    if (!dispatcher) {
+      dispatcher = this.createDispatcher(proxy);
+      if (!dispatcher) {
+        return {};
+      }
+      this.dispatchers.set(proxy, dispatcher);
+    }
+
+    return { dispatcher };
+  }
+
+  /**
+   * Agents and proxy settings for axios
+   */
+  axiosOptions(url: string): AxiosConnectionOptions {
+    if (!this.agents) {
+      const http = loadModule('http');
+      const https = loadModule('https');
+      const keepAlive = this.config.keepAlive ?? true;
+      const maxSockets = this.config.maxSockets ?? Infinity;
+
+      this.agents = {
+        httpAgent: http ? new http.Agent({ keepAlive, maxSockets }) : undefined,
+        httpsAgent: https ? new https.Agent({ keepAlive, maxSockets, ...this.tlsOptions() }) : undefined
+      };
+    }
+
+    const proxy = this.proxyFor(url);
+    return { ...this.agents, proxy: proxy ? toAxiosProxy(proxy) : false };
+  }
+
+  /**
+   * Close pooled sockets (e.g. on shutdown)
+   */
+  async close(): Promise<void> {
+    const dispatchers = Array.from(this.dispatchers.values()) as Array<{ close?: () => Promise<void> }>;
+    this.dispatchers.clear();
+    await Promise.all(dispatchers.map(dispatcher => dispatcher.close?.().catch(() => undefined)));
+
+    const agents = this.agents as { httpAgent?: { destroy(): void }; httpsAgent?: { destroy(): void } } | undefined;
+    agents?.httpAgent?.destroy();
+    agents?.httpsAgent?.destroy();
+    this.agents = undefined;
+  }
+
+  /**
+   * Proxy URL for a request, or undefined when it goes direct (`noProxy` / NO_PROXY)
+   */
+  proxyFor(url: string): string | undefined {
+    if (this.config.proxy === false) {
+      return undefined;
+    }
+
+    const target = new URL(url);
+    const proxy = this.config.proxy || (target.protocol === 'https:'
+      ? this.env('HTTPS_PROXY')
+      : this.env('HTTP_PROXY'));
+
+    if (!proxy) {
+      return undefined;
+    }
+
+    const noProxy = this.config.noProxy ?? this.env('NO_PROXY');
+    return noProxy && matchesNoProxy(target, noProxy) ? undefined : proxy;
+  }
+
+  private createDispatcher(proxy: string): unknown {
+    const undici = loadModule('undici');
+    if (!undici) {
+      if (!this.undiciMissing) {
+        this.undiciMissing = true;
+        this.logger.warn('Connection options for fetch need the optional `undici` package (npm install undici); ' +
+          'keep-alive, proxy and CA settings are ignored and the default fetch agent is used', {
+          proxy: proxy || undefined,
+          ca: Boolean(this.config.ca),
+          keepAlive: this.config.keepAlive ?? true
+        });
+      }
+      return undefined;
+    }
+
+    const keepAlive = this.config.keepAlive ?? true;
+    const pool = {
+      keepAliveTimeout: this.config.keepAliveTimeout ?? DEFAULT_KEEP_ALIVE_TIMEOUT,
+      connections: this.config.maxSockets ?? null,
+      pipelining: keepAlive ? 1 : 0 // 0 closes the socket after each request
+    };
+    const tls = this.tlsOptions();
+
+    return proxy
+      ? new undici.ProxyAgent({ ...pool, uri: proxy, requestTls: tls, proxyTls: tls })
+      : new undici.Agent({ ...pool, connect: tls });
+  }
+
+  private tlsOptions(): { ca?: string[]; rejectUnauthorized?: boolean } {
+    const options: { ca?: string[]; rejectUnauthorized?: boolean } = {};
+
+    if (this.config.ca) {
+      // `ca` replaces the trust store, so keep the system roots alongside the extra certificates
+      const roots: string[] = loadModule('tls')?.rootCertificates || [];
+      options.ca = [...roots, ...(Array.isArray(this.config.ca) ? this.config.ca : [this.config.ca])];
+    }
+    if (this.config.rejectUnauthorized !== undefined) {
+      options.rejectUnauthorized = this.config.rejectUnauthorized;
+    }
+
+    return options;
+  }
+
+  private env(key: string): string | undefined {
+    return Environment.getEnvVar(key, this.logger) || Environment.getEnvVar(key.toLowerCase(), this.logger) || undefined;
+  }
+}
+
+/**
+ * NO_PROXY semantics: '*' matches everything, entries match the host and its subdomains
+ * (a leading '.' or '*.' is optional) and may pin a port
+ */
+export function matchesNoProxy(target: URL, noProxy: string): boolean {
+  const host = target.hostname.toLowerCase();
+  const port = target.port || (target.protocol === 'https:' ? '443' : '80');
+
+  return noProxy
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .some(entry => {
+      if (entry === '*') {
+        return true;
+      }
+
+      const [pattern, entryPort] = entry.toLowerCase().replace(/^\*?\./, '').split(':');
+      if (entryPort && entryPort !== port) {
+        return false;
+      }
+
+      return host === pattern || host.endsWith(`.${pattern}`);
+    });
+}
+
+function toAxiosProxy(proxy: string): AxiosConnectionOptions['proxy'] {
+  const url = new URL(proxy);
+
+  return {
+    protocol: url.protocol.replace(':', ''),
+    host: url.hostname,
+    port: Number(url.port) || (url.protocol === 'https:' ? 443 : 80),
+    auth: url.username
+      ? { username: decodeURIComponent(url.username), password: decodeURIComponent(url.password) }
+      : undefined
+  };
+}
+
+function loadModule(name: string): any {
+  if (!Environment.info.isNode) {
+    return null;
+  }
+
+  try {
+    return nodeRequire()?.(name) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * `require` in the CommonJS build; in the ES module build, one resolving from the working directory
+ */
+function nodeRequire(): NodeRequire | undefined {
+  if (typeof require !== 'undefined') {
+    return require;
+  }
+
+  // Node.js 20.16+ / 22.3+
+  const runtime = globalThis as { process?: { getBuiltinModule?: (id: string) => typeof import('module') | undefined } };
+  return runtime.process?.getBuiltinModule?.('module')?.createRequire(`${process.cwd()}/`);
+}
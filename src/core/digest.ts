@@ -0,0 +1,34 @@
+/**
+ * Digest - SHA-256 / HMAC-SHA256 hex digests over Web Crypto
+ * One implementation for Node.js, browsers, workers, Deno and Bun
+ */
+
+import { Environment } from './environment';
+
+type Input = string | Uint8Array;
+
+export async function sha256Hex(data: Input): Promise<string> {
+  return toHex(await subtle().digest('SHA-256', toBytes(data)));
+}
+
+export async function hmacSha256Hex(key: string, data: Input): Promise<string> {
+  const cryptoKey = await subtle().importKey('raw', toBytes(key), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  return toHex(await subtle().sign('HMAC', cryptoKey, toBytes(data)));
+}
+
+function subtle(): SubtleCrypto {
+  // Node.js 18 only exposes Web Crypto as `require('crypto').webcrypto`
+  const subtle = globalThis.crypto?.subtle || Environment.getCrypto()?.webcrypto?.subtle;
+  if (!subtle) {
+    throw new Error('Web Crypto (crypto.subtle) is not available in this environment');
+  }
+  return subtle;
+}
+
+function toBytes(data: Input): Uint8Array {
+  return typeof data === 'string' ? new TextEncoder().encode(data) : data;
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,99 @@
+import { Download, parseContentDisposition, type DownloadProgress } from './download';
+import { AbortError, StorefrontError } from './errors';
+
+function chunked(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let index = 0;
+  return new ReadableStream({
+    pull(controller) {
+      if (index < chunks.length) {
+        controller.enqueue(encoder.encode(chunks[index++]));
+      } else {
+        controller.close();
+      }
+    }
+  });
+}
+
+describe('parseContentDisposition', () => {
+  it.each([
+    ['attachment; filename="invoice-42.pdf"', 'invoice-42.pdf'],
+    ['attachment; filename=report.csv', 'report.csv'],
+    ['attachment; filename="say \\"hi\\".txt"', 'say "hi".txt'],
+    ["attachment; filename=\"fallback.zip\"; filename*=UTF-8''%D9%81%D8%A7%D8%AA%D9%88%D8%B1%D8%A9.zip", 'فاتورة.zip'],
+    ["attachment; filename*=UTF-8''%E0%A4%A.zip; filename=\"plain.zip\"", 'plain.zip'],
+    ['attachment; filename="../../etc/passwd"', 'passwd'],
+    ['attachment; filename="C:\\\\temp\\\\setup.exe"', 'setup.exe'],
+    ['attachment; filename=".."', undefined],
+    ['inline', undefined],
+    [undefined, undefined]
+  ])('%s → %s', (value, filename) => {
+    expect(parseContentDisposition(value)).toBe(filename);
+  });
+});
+
+describe('Download', () => {
+  it('reads metadata from the headers', () => {
+    const download = new Download(null, {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': 'attachment; filename="invoice.pdf"',
+      'Content-Length': '2048'
+    });
+
+    expect(download).toMatchObject({ contentType: 'application/pdf', filename: 'invoice.pdf', size: 2048 });
+    expect(new Download(null, {})).toMatchObject({ contentType: 'application/octet-stream', filename: undefined, size: undefined });
+  });
+
+  it('reports progress for every chunk', async () => {
+    const progress: DownloadProgress[] = [];
+    const download = new Download(new Response(chunked(['abcd', 'efgh'])), { 'Content-Length': '8' }, {
+      onProgress: update => progress.push(update)
+    });
+
+    expect(await download.text()).toBe('abcdefgh');
+    expect(progress).toEqual([
+      { loaded: 4, total: 8, percent: 50 },
+      { loaded: 8, total: 8, percent: 100 }
+    ]);
+  });
+
+  it('reports progress without a percentage when the size is unknown', async () => {
+    const progress: DownloadProgress[] = [];
+    await new Download(chunked(['abc']), {}, { onProgress: update => progress.push(update) }).arrayBuffer();
+
+    expect(progress).toEqual([{ loaded: 3, total: undefined, percent: undefined }]);
+  });
+
+  it('lets the body be read once', async () => {
+    const download = new Download('data', {});
+
+    await download.text();
+    await expect(download.blob()).rejects.toBeInstanceOf(StorefrontError);
+  });
+
+  it('fails with an AbortError when the signal aborts mid-stream', async () => {
+    const controller = new AbortController();
+    const download = new Download(chunked(['a', 'b', 'c']), {}, {
+      signal: controller.signal,
+      onProgress: () => controller.abort()
+    });
+
+    await expect(download.text()).rejects.toBeInstanceOf(AbortError);
+  });
+
+  it('converts to a Node.js Readable', async () => {
+    const download = new Download(chunked(['node ', 'stream']), { 'Content-Type': 'text/plain' });
+    const readable = await download.toNodeStream();
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of readable) {
+      chunks.push(Buffer.from(chunk));
+    }
+    expect(Buffer.concat(chunks).toString()).toBe('node stream');
+  });
+
+  it('serves plain data returned by middleware', async () => {
+    expect(await new Download({ id: 1 }, {}).text()).toBe('{"id":1}');
+    expect(await (await new Download('csv,data', { 'Content-Type': 'text/csv' }).blob()).text()).toBe('csv,data');
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Download - Binary responses (digital deliverables, invoices, exports)
+ * Exposes the body as a web stream, Blob, text or Node.js stream, with progress reporting
+ */
+
+import type { Readable } from 'stream';
+import { Environment } from './environment';
+import { StorefrontError, NetworkError, AbortError } from './errors';
+
+export interface DownloadProgress {
+  loaded: number; // Bytes received so far
+  total?: number; // From Content-Length, when the server sent one
+  percent?: number; // 0-100, only when `total` is known
+}
+
+export interface DownloadOptions {
+  onProgress?: (progress: DownloadProgress) => void; // Called for every chunk received
+  signal?: AbortSignal; // Also cancels the body while it streams
+}
+
+export class Download {
+  readonly contentType: string;
+  readonly filename?: string; // From Content-Disposition, reduced to a base name
+  readonly size?: number; // From Content-Length
+  readonly headers: Record<string, string>;
+
+  private response: Response;
+  private options: DownloadOptions;
+  private used = false;
+
+  constructor(body: unknown, headers: Record<string, string>, options: DownloadOptions = {}) {
+    this.response = toResponse(body);
+    this.headers = headers;
+    this.options = options;
+    this.contentType = header(headers, 'content-type') || 'application/octet-stream';
+    this.filename = parseContentDisposition(header(headers, 'content-disposition'));
+
+    const length = Number(header(headers, 'content-length'));
+    this.size = length > 0 && isFinite(length) ? length : undefined;
+  }
+
+  /**
+   * Body as a web ReadableStream (browsers, Node.js 18+, workers). The body can only be read once.
+   */
+  stream(): ReadableStream<Uint8Array> {
+    if (this.used) {
+      throw new StorefrontError('Download body has already been read');
+    }
+    this.used = true;
+
+    const body = this.response.body;
+    if (!body) {
+      return new ReadableStream({ start: controller => controller.close() });
+    }
+
+    return this.options.onProgress || this.options.signal ? this.track(body) : body;
+  }
+
+  async blob(): Promise<Blob> {
+    return new Response(this.stream(), { headers: { 'content-type': this.contentType } }).blob();
+  }
+
+  async arrayBuffer(): Promise<ArrayBuffer> {
+    return new Response(this.stream()).arrayBuffer();
+  }
+
+  async text(): Promise<string> {
+    return new Response(this.stream()).text();
+  }
+
+  /**
+   * Body as a Node.js Readable, e.g. to pipe into a file or an HTTP response (server-side only)
+   */
+  async toNodeStream(): Promise<Readable> {
+    if (!Environment.info.isNode) {
+      throw new StorefrontError('Node.js streams are only available server-side');
+    }
+
+    const { Readable } = await import('stream');
+    return Readable.fromWeb(this.stream() as Parameters<typeof Readable.fromWeb>[0]);
+  }
+
+  /**
+   * Count bytes as they are read and map stream failures to typed errors
+   */
+  private track(body: ReadableStream<Uint8Array>): ReadableStream<Uint8Array> {
+    const { onProgress, signal } = this.options;
+    const reader = body.getReader();
+    const total = this.size;
+    let loaded = 0;
+
+    return new ReadableStream<Uint8Array>({
+      pull: async (controller) => {
+        try {
+          const { done, value } = await reader.read();
+
+          if (signal?.aborted) {
+            throw signal.reason;
+          }
+
+          if (done) {
+            controller.close();
+            return;
+          }
+
+          loaded += value.byteLength;
+          onProgress?.({
+            loaded,
+            total,
+            percent: total ? Math.min(100, Math.round((loaded / total) * 100)) : undefined
+          });
+          controller.enqueue(value);
+        } catch (error) {
+          reader.cancel(error).catch(() => undefined);
+          controller.error(signal?.aborted
+            ? new AbortError('Download aborted')
+            : new NetworkError('Download interrupted', { cause: error }));
+        }
+      },
+      cancel: (reason) => reader.cancel(reason)
+    });
+  }
+}
+
+/**
+ * Filename from a Content-Disposition header (RFC 6266, including `filename*`)
+ */
+export function parseContentDisposition(value?: string): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  let filename: string | undefined;
+
+  const extended = /filename\*\s*=\s*([\w-]*)'[^']*'([^;]+)/i.exec(value);
+  if (extended) {
+    try {
+      filename = decodeURIComponent(extended[2].trim());
+    } catch {
+      // Malformed encoding, fall back to the plain parameter
+    }
+  }
+
+  if (!filename) {
+    const plain = /(?:^|;)\s*filename\s*=\s*(?:"((?:\\.|[^"\\])*)"|([^;]+))/i.exec(value);
+    filename = plain ? (plain[1]?.replace(/\\(.)/g, '$1') ?? plain[2].trim()) : undefined;
+  }
+
+  // Never let a server-supplied name point outside the target directory
+  const base = filename?.split(/[\\/]/).pop()?.trim();
+  return base && base !== '.' && base !== '..' ? base : undefined;
+}
+
+function header(headers: Record<string, string>, name: string): string | undefined {
+  const key = Object.keys(headers).find(candidate => candidate.toLowerCase() === name);
+  return key ? headers[key] : undefined;
+}
+
+/**
+ * Streaming responses carry the fetch Response; middleware or custom transports may return plain data
+ */
+function toResponse(body: unknown): Response {
+  if (body instanceof Response) {
+    return body;
+  }
+  if (body === null || body === undefined) {
+    return new Response(null);
+  }
+  if (typeof body === 'string' || body instanceof Blob || body instanceof ArrayBuffer || ArrayBuffer.isView(body) || body instanceof ReadableStream) {
+    return new Response(body as BodyInit);
+  }
+  return new Response(JSON.stringify(body));
+}
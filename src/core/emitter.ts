@@ -0,0 +1,32 @@
+/**
+ * Minimal typed event emitter
+ * Framework-agnostic alternative to Node's EventEmitter for core modules
+ */
+
+export type Listener<T> = (payload: T) => void;
+
+export class Emitter<Events extends Record<string, any>> {
+  private listeners: { [K in keyof Events]?: Array<Listener<Events[K]>> } = {};
+
+  /**
+   * Subscribe to an event. Returns an unsubscribe function.
+   */
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): () => void {
+    this.listeners[event] = [...(this.listeners[event] || []), listener];
+    return () => this.off(event, listener);
+  }
+
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void {
+    this.listeners[event] = (this.listeners[event] || []).filter(l => l !== listener);
+  }
+
+  protected emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    for (const listener of this.listeners[event] || []) {
+      try {
+        listener(payload);
+      } catch {
+        // Listener errors must never break the request flow
+      }
+    }
+  }
+}
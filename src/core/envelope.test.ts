@@ -0,0 +1,78 @@
+import { unwrap, paginate, normalizePagination, assertSuccess } from './envelope';
+import { StorefrontError, ValidationError } from './errors';
+
+describe('unwrap', () => {
+  it('returns the data of an envelope, or a bare payload as is', () => {
+    expect(unwrap({ success: true, data: { id: 1 } })).toEqual({ id: 1 });
+    expect(unwrap({ success: true, data: null })).toBeNull();
+    expect(unwrap({ id: 1, name: 'Shirt' })).toEqual({ id: 1, name: 'Shirt' });
+    expect(unwrap([1, 2])).toEqual([1, 2]);
+    expect(unwrap('OK')).toBe('OK');
+  });
+
+  it('throws for success: false even on a 2xx response', () => {
+    let error: unknown;
+    try {
+      unwrap({ success: false, message: 'Cart is locked' }, { status: 200, statusText: 'OK' });
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(StorefrontError);
+    expect(error).not.toBeInstanceOf(ValidationError);
+    expect(error).toMatchObject({ message: 'Cart is locked', status: 200, response: { data: { success: false, message: 'Cart is locked' } } });
+  });
+});
+
+describe('assertSuccess', () => {
+  it('throws a ValidationError when the envelope carries errors', () => {
+    const body = { success: false, errors: { qty: ['The qty must be at least 1.'] } };
+
+    expect(() => assertSuccess(body)).toThrow(ValidationError);
+    expect(() => assertSuccess(body)).toThrow('Request was not successful');
+    expect(() => assertSuccess({ success: true })).not.toThrow();
+    expect(() => assertSuccess(null)).not.toThrow();
+  });
+});
+
+describe('paginate', () => {
+  it('completes a partial pagination block', () => {
+    const page = paginate<number>({ success: true, data: [4, 5, 6], pagination: { current_page: 2, per_page: 3, total: 8 } });
+
+    expect(page).toEqual({
+      data: [4, 5, 6],
+      pagination: {
+        current_page: 2,
+        last_page: 3,
+        per_page: 3,
+        total: 8,
+        from: 4,
+        to: 6,
+        has_more_pages: true,
+        next_page_url: null,
+        prev_page_url: null
+      }
+    });
+  });
+
+  it('reports an unpaginated list as a single page', () => {
+    expect(paginate<number>([1, 2]).pagination).toMatchObject({ current_page: 1, last_page: 1, per_page: 2, total: 2, from: 1, to: 2, has_more_pages: false });
+    expect(paginate<number>({ success: true, data: null })).toMatchObject({ data: [], pagination: { total: 0, from: null, to: null } });
+  });
+
+  it('rejects a body that is not a list', () => {
+    expect(() => paginate({ success: true, data: { id: 1 } })).toThrow('Expected a list response');
+  });
+});
+
+describe('normalizePagination', () => {
+  it('keeps the fields the API sent', () => {
+    expect(normalizePagination({ current_page: 3, last_page: 3, per_page: 10, total: 25, from: 21, to: 25, has_more_pages: false, next_page_url: null, prev_page_url: '/products?page=2' }, 5))
+      .toMatchObject({ from: 21, to: 25, has_more_pages: false, prev_page_url: '/products?page=2' });
+  });
+
+  it('handles an empty last page and a zero page size', () => {
+    expect(normalizePagination({ current_page: 4, per_page: 10, total: 30 }, 0)).toMatchObject({ last_page: 3, from: null, to: null, has_more_pages: false });
+    expect(normalizePagination({ per_page: 0, total: 0 }, 0)).toMatchObject({ last_page: 1, has_more_pages: false });
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Response Envelope - Unwraps the API's `{ success, data, message, pagination }` envelope
+ * Shared by the SDK namespaces and the legacy services
+ */
+
+import { StorefrontError, ValidationError } from './errors';
+import type { PaginatedResponse } from '../types';
+
+export type Pagination = PaginatedResponse['pagination'];
+
+export interface Paginated<T> {
+  data: T[];
+  pagination: Pagination;
+}
+
+/**
+ * Envelope as sent by the API; bare payloads (no `data` key) are accepted too
+ */
+export interface Envelope<T = unknown> {
+  success?: boolean;
+  data?: T;
+  message?: string;
+  errors?: Record<string, string[]>;
+  pagination?: Partial<Pagination>;
+}
+
+/**
+ * Status line of the HTTP response the envelope came with, for error reporting
+ */
+export interface ResponseMeta {
+  status?: number;
+  statusText?: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Return the envelope's `data`, or the body itself when it isn't wrapped.
+ * `success: false` throws even when the HTTP status was 2xx.
+ */
+export function unwrap<T>(body: unknown, meta: ResponseMeta = {}): T {
+  assertSuccess(body, meta);
+
+  if (isEnvelope(body) && 'data' in body) {
+    return body.data as T;
+  }
+
+  return body as T;
+}
+
+/**
+ * Unwrap a list response into `{ data, pagination }` with a complete pagination block.
+ * Unpaginated lists are reported as a single page.
+ */
+export function paginate<T>(body: unknown, meta: ResponseMeta = {}): Paginated<T> {
+  const data = unwrap<T[] | null | undefined>(body, meta);
+
+  if (data !== null && data !== undefined && !Array.isArray(data)) {
+    throw new StorefrontError('Expected a list response', { response: toErrorResponse(body, meta) });
+  }
+
+  const items = data || [];
+  const pagination = isEnvelope(body) ? body.pagination : undefined;
+
+  return { data: items, pagination: normalizePagination(pagination, items.length) };
+}
+
+/**
+ * Fill in the pagination fields the API may omit
+ */
+export function normalizePagination(pagination: Partial<Pagination> | undefined, count: number): Pagination {
+  const currentPage = pagination?.current_page ?? 1;
+  const perPage = pagination?.per_page ?? count;
+  const total = pagination?.total ?? count;
+  const lastPage = pagination?.last_page ?? (perPage > 0 ? Math.max(1, Math.ceil(total / perPage)) : 1);
+  const from = count > 0 ? (currentPage - 1) * perPage + 1 : null;
+
+  return {
+    current_page: currentPage,
+    last_page: lastPage,
+    per_page: perPage,
+    total,
+    from: pagination?.from !== undefined ? pagination.from : from,
+    to: pagination?.to !== undefined ? pagination.to : from === null ? null : from + count - 1,
+    has_more_pages: pagination?.has_more_pages ?? currentPage < lastPage,
+    next_page_url: pagination?.next_page_url ?? null,
+    prev_page_url: pagination?.prev_page_url ?? null
+  };
+}
+
+/**
+ * Throw the typed error for a `success: false` envelope
+ */
+export function assertSuccess(body: unknown, meta: ResponseMeta = {}): void {
+  if (!isEnvelope(body) || body.success !== false) {
+    return;
+  }
+
+  const message = body.message || 'Request was not successful';
+  const options = { response: toErrorResponse(body, meta) };
+
+  throw body.errors ? new ValidationError(message, options) : new StorefrontError(message, options);
+}
+
+function isEnvelope(body: unknown): body is Envelope {
+  return !!body && typeof body === 'object' && !Array.isArray(body);
+}
+
+function toErrorResponse(body: unknown, meta: ResponseMeta) {
+  return {
+    data: body,
+    status: meta.status ?? 200,
+    statusText: meta.statusText ?? 'OK',
+    headers: meta.headers
+  };
+}
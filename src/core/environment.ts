@@ -3,6 +3,8 @@
  * Secure environment handling for client/server-side compatibility
  */
 
+import { noopLogger, type Logger } from './logger';
+
 export interface EnvironmentInfo {
   isServer: boolean;
   isBrowser: boolean;
@@ -59,9 +61,9 @@ export class Environment {
    * Get environment variables securely
    * Only works server-side for security
    */
-  static getEnvVar(key: string): string | undefined {
+  static getEnvVar(key: string, logger: Logger = noopLogger): string | undefined {
     if (!this.info.isServer) {
-      console.warn(`Environment variable access attempted in ${this.info.platform} environment. Use configuration object instead.`);
+      logger.warn(`Environment variable access attempted in ${this.info.platform} environment. Use configuration object instead.`);
       return undefined;
     }
 
@@ -0,0 +1,90 @@
+import {
+  AuthenticationError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  StorefrontError,
+  TimeoutError,
+  ValidationError,
+  createHttpError,
+  parseRetryAfter
+} from './errors';
+
+describe('createHttpError', () => {
+  const response = (status: number, data: unknown = null, headers?: Record<string, string>) =>
+    ({ status, statusText: 'Status Text', data, headers });
+
+  it.each([
+    [401, AuthenticationError],
+    [403, AuthenticationError],
+    [404, NotFoundError],
+    [408, TimeoutError],
+    [422, ValidationError],
+    [429, RateLimitError],
+    [500, StorefrontError],
+    [503, StorefrontError]
+  ])('maps %i to %p', (status, type) => {
+    const error = createHttpError(response(status));
+
+    expect(error).toBeInstanceOf(type);
+    expect(error.constructor).toBe(type);
+    expect(error).toMatchObject({ name: type.name, status });
+  });
+
+  it('prefers the explicit message, then the API message, then the status line', () => {
+    expect(createHttpError(response(500, { message: 'Server error' }), 'Custom').message).toBe('Custom');
+    expect(createHttpError(response(500, { message: 'Server error' })).message).toBe('Server error');
+    expect(createHttpError(response(500)).message).toBe('HTTP 500: Status Text');
+  });
+
+  it('keeps the Laravel validation errors and the response', () => {
+    const data = { message: 'The given data was invalid.', errors: { email: ['The email must be valid.'] } };
+    const error = createHttpError(response(422, data)) as ValidationError;
+
+    expect(error.errors).toEqual({ email: ['The email must be valid.'] });
+    expect(error.response?.data).toBe(data);
+  });
+
+  it('reads Retry-After in either case', () => {
+    expect((createHttpError(response(429, null, { 'retry-after': '7' })) as RateLimitError).retryAfter).toBe(7);
+    expect((createHttpError(response(429, null, { 'Retry-After': '3' })) as RateLimitError).retryAfter).toBe(3);
+    expect((createHttpError(response(429)) as RateLimitError).retryAfter).toBeUndefined();
+  });
+});
+
+describe('parseRetryAfter', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('reads delta seconds', () => {
+    expect(parseRetryAfter('120')).toBe(120);
+    expect(parseRetryAfter('0')).toBe(0);
+    expect(parseRetryAfter('-5')).toBe(0);
+  });
+
+  it('reads an HTTP date relative to now', () => {
+    jest.spyOn(Date, 'now').mockReturnValue(Date.parse('Wed, 21 Oct 2026 07:28:00 GMT'));
+
+    expect(parseRetryAfter('Wed, 21 Oct 2026 07:28:30 GMT')).toBe(30);
+    expect(parseRetryAfter('Wed, 21 Oct 2026 07:00:00 GMT')).toBe(0);
+  });
+
+  it('ignores missing or malformed values', () => {
+    expect(parseRetryAfter(undefined)).toBeUndefined();
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
+});
+
+describe('StorefrontError', () => {
+  it('keeps status, cause and a frame-less stack', () => {
+    const cause = new TypeError('fetch failed');
+    const error = new TimeoutError('Request timed out', { status: 408, cause });
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error).toBeInstanceOf(StorefrontError);
+    expect(error).toMatchObject({ status: 408, cause });
+    expect(error.stack).toBe('TimeoutError: Request timed out');
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Storefront Errors - Typed error hierarchy shared by both HTTP clients
+ *
+ * Errors keep the axios-style `status` / `response` fields callers already read,
+ * but report a stack without frames so development overlays (e.g. Next.js)
+ * don't treat expected API errors as crashes.
+ */
+
+import type { SchemaIssue } from './schema';
+
+export interface ErrorResponse {
+  data: any;
+  status: number;
+  statusText: string;
+  headers?: Record<string, string>;
+}
+
+export interface StorefrontErrorOptions {
+  status?: number;
+  response?: ErrorResponse;
+  cause?: unknown;
+}
+
+/**
+ * Base class for every error thrown by the SDK
+ */
+export class StorefrontError extends Error {
+  status?: number;
+  response?: ErrorResponse;
+  cause?: unknown;
+
+  constructor(message: string, options: StorefrontErrorOptions = {}) {
+    super(message);
+    Object.setPrototypeOf(this, new.target.prototype);
+
+    this.name = 'StorefrontError';
+    this.status = options.status ?? options.response?.status;
+    this.response = options.response;
+    this.cause = options.cause;
+
+    // Frame-less stack, resolved lazily so subclasses can set their name first
+    Object.defineProperty(this, 'stack', {
+      get: () => `${this.name}: ${this.message}`,
+      configurable: true
+    });
+  }
+}
+
+/**
+ * 422 - Laravel validation failure
+ */
+export class ValidationError extends StorefrontError {
+  errors: Record<string, string[]>;
+
+  constructor(message: string, options: StorefrontErrorOptions = {}) {
+    super(message, options);
+    this.name = 'ValidationError';
+    this.errors = options.response?.data?.errors || {};
+  }
+}
+
+/**
+ * API response does not match the SDK model (runtime schema validation)
+ */
+export class SchemaValidationError extends StorefrontError {
+  issues: SchemaIssue[];
+
+  constructor(message: string, options: StorefrontErrorOptions & { issues?: SchemaIssue[] } = {}) {
+    super(message, options);
+    this.name = 'SchemaValidationError';
+    this.issues = options.issues || [];
+  }
+}
+
+/**
+ * 401 / 403 - Missing, invalid or insufficient credentials
+ */
+export class AuthenticationError extends StorefrontError {
+  constructor(message: string, options: StorefrontErrorOptions = {}) {
+    super(message, options);
+    this.name = 'AuthenticationError';
+  }
+}
+
+/**
+ * 404 - Resource not found
+ */
+export class NotFoundError extends StorefrontError {
+  constructor(message: string, options: StorefrontErrorOptions = {}) {
+    super(message, options);
+    this.name = 'NotFoundError';
+  }
+}
+
+/**
+ * 429 - Too many requests
+ */
+export class RateLimitError extends StorefrontError {
+  retryAfter?: number; // Seconds, from the Retry-After header
+
+  constructor(message: string, options: StorefrontErrorOptions & { retryAfter?: number } = {}) {
+    super(message, options);
+    this.name = 'RateLimitError';
+    this.retryAfter = options.retryAfter;
+  }
+}
+
+/**
+ * Request never produced an HTTP response (DNS, connection reset, offline, ...)
+ */
+export class NetworkError extends StorefrontError {
+  constructor(message: string, options: StorefrontErrorOptions = {}) {
+    super(message, options);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * Mutation failed offline and was stored in the offline queue for replay
+ */
+export class OfflineQueuedError extends NetworkError {
+  idempotencyKey?: string; // Identifies the queued mutation in offline queue events
+
+  constructor(message: string, options: StorefrontErrorOptions & { idempotencyKey?: string } = {}) {
+    super(message, options);
+    this.name = 'OfflineQueuedError';
+    this.idempotencyKey = options.idempotencyKey;
+  }
+}
+
+/**
+ * Request exceeded the configured timeout
+ */
+export class TimeoutError extends NetworkError {
+  constructor(message: string, options: StorefrontErrorOptions = {}) {
+    super(message, options);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Request was cancelled through its AbortSignal (never retried)
+ */
+export class AbortError extends StorefrontError {
+  constructor(message = 'Request aborted', options: StorefrontErrorOptions = {}) {
+    super(message, options);
+    this.name = 'AbortError';
+  }
+}
+
+/**
+ * Circuit breaker is open, the request was not sent
+ */
+export class CircuitOpenError extends StorefrontError {
+  retryAt?: number; // Epoch ms when trial requests are allowed again
+
+  constructor(message: string, options: StorefrontErrorOptions & { retryAt?: number } = {}) {
+    super(message, options);
+    this.name = 'CircuitOpenError';
+    this.retryAt = options.retryAt;
+  }
+}
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into seconds
+ */
+export function parseRetryAfter(value?: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds);
+  }
+
+  const date = new Date(value).getTime();
+  if (isNaN(date)) {
+    return undefined;
+  }
+
+  return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+/**
+ * Create the typed error matching an HTTP error response
+ */
+export function createHttpError(response: ErrorResponse, message?: string): StorefrontError {
+  const text = message || response.data?.message || `HTTP ${response.status}: ${response.statusText}`;
+  const options: StorefrontErrorOptions = { response };
+
+  switch (response.status) {
+    case 401:
+    case 403:
+      return new AuthenticationError(text, options);
+    case 404:
+      return new NotFoundError(text, options);
+    case 408:
+      return new TimeoutError(text, options);
+    case 422:
+      return new ValidationError(text, options);
+    case 429: {
+      const header = response.headers?.['retry-after'] ?? response.headers?.['Retry-After'];
+      return new RateLimitError(text, { ...options, retryAfter: parseRetryAfter(header) });
+    }
+    default:
+      return new StorefrontError(text, options);
+  }
+}
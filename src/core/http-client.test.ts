@@ -0,0 +1,368 @@
+import { UniversalHttpClient, type HttpConfig } from './http-client';
+import { SecurityManager } from './security';
+import { AbortError, CircuitOpenError, NetworkError, StorefrontError } from './errors';
+import { createRequestVerifier } from '../server/verify';
+
+interface Sent {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function signer(): SecurityManager {
+  return new SecurityManager({ publicKey: 'pk_test', secretKey: 'sk_test', signatureVersion: 'v2', timestampTolerance: 300 });
+}
+
+/**
+ * Client over a scripted transport; `statuses` are answered in order, the last one repeats
+ */
+function client(statuses: number[], config: Partial<HttpConfig> = {}) {
+  const sent: Sent[] = [];
+  const http = new UniversalHttpClient({
+    baseUrl: 'http://storefront.test/api',
+    retryDelay: 0,
+    transport: async (url, init) => {
+      const status = statuses[Math.min(sent.length, statuses.length - 1)];
+      sent.push({ url, method: init.method || 'GET', headers: { ...(init.headers as Record<string, string>) } });
+      return status < 400 ? json({ success: true, data: { ok: true } }, status) : json({ success: false, message: 'unavailable' }, status);
+    },
+    ...config
+  }, signer());
+  return { http, sent };
+}
+
+describe('UniversalHttpClient retry policy', () => {
+  it('retries GET on a 503', async () => {
+    const { http, sent } = client([503, 503, 200]);
+
+    await expect(http.get('/products')).resolves.toMatchObject({ status: 200 });
+    expect(sent).toHaveLength(3);
+  });
+
+  it('does not retry or add an Idempotency-Key to a POST by default', async () => {
+    const { http, sent } = client([503, 200]);
+
+    await expect(http.post('/cart/add', { product_id: 1 })).rejects.toBeInstanceOf(StorefrontError);
+    expect(sent).toHaveLength(1);
+    expect(Object.keys(sent[0].headers).map(name => name.toLowerCase())).not.toContain('idempotency-key');
+  });
+
+  it('retries a POST carrying a caller key and reuses the key on every attempt', async () => {
+    const { http, sent } = client([503, 502, 200]);
+
+    await http.post('/checkout', {}, undefined, { idempotencyKey: 'order-1' });
+
+    expect(sent.map(request => request.headers['Idempotency-Key'])).toEqual(['order-1', 'order-1', 'order-1']);
+  });
+
+  it('adopts an Idempotency-Key passed as a header', async () => {
+    const { http, sent } = client([500, 200]);
+
+    await http.patch('/auth/profile', { name: 'Sara' }, { 'idempotency-key': 'profile-1' });
+
+    expect(sent).toHaveLength(2);
+    expect(sent.every(request => request.headers['Idempotency-Key'] === 'profile-1' && !('idempotency-key' in request.headers))).toBe(true);
+  });
+
+  it('generates one key per logical request when idempotencyKeys is on', async () => {
+    const { http, sent } = client([503, 200], { idempotencyKeys: true });
+
+    await http.post('/cart/add', { product_id: 1 });
+    await http.post('/cart/add', { product_id: 1 });
+
+    const keys = sent.map(request => request.headers['Idempotency-Key']);
+    expect(keys[0]).toMatch(/^[0-9a-f]{32}$/);
+    expect(keys[1]).toBe(keys[0]);
+    expect(keys[2]).not.toBe(keys[0]);
+  });
+
+  it('follows an explicit retryPolicy', async () => {
+    const { http, sent } = client([503, 503, 200], { retryPolicy: { GET: 'never', POST: 'always' } });
+
+    await expect(http.get('/products')).rejects.toBeInstanceOf(StorefrontError);
+    await expect(http.post('/cart/add', {})).resolves.toMatchObject({ status: 200 });
+    expect(sent).toHaveLength(3);
+  });
+
+  it('never retries 4xx other than 408 and 429', async () => {
+    const { http, sent } = client([422, 200]);
+
+    await expect(http.get('/products')).rejects.toMatchObject({ status: 422 });
+    expect(sent).toHaveLength(1);
+  });
+
+  it('signs the Idempotency-Key under signature v2', async () => {
+    const { http, sent } = client([200]);
+
+    await http.post('/checkout', {}, undefined, { idempotencyKey: 'order-1' });
+
+    expect(sent[0].headers['X-Signed-Headers'].split(';')).toContain('idempotency-key');
+  });
+});
+
+describe('UniversalHttpClient middleware', () => {
+  it('runs middlewares in registration order around the request', async () => {
+    const { http } = client([200]);
+    const order: string[] = [];
+    for (const name of ['outer', 'inner']) {
+      http.use(async (request, next) => {
+        order.push(`${name}:request`);
+        const response = await next(request);
+        order.push(`${name}:response`);
+        return response;
+      });
+    }
+
+    await http.get('/products');
+
+    expect(order).toEqual(['outer:request', 'inner:request', 'inner:response', 'outer:response']);
+  });
+
+  it('signs the request as rewritten by a middleware', async () => {
+    const { http, sent } = client([200]);
+    http.use((request, next) => next({ ...request, url: `${request.url}?locale=ar`, headers: { ...request.headers, 'X-Cart-Token': 'cart-1' } }));
+
+    await http.get('/products');
+
+    expect(sent[0].url).toBe('http://storefront.test/api/products?locale=ar');
+    expect(sent[0].headers['X-Cart-Token']).toBe('cart-1');
+    const verifier = createRequestVerifier({ keys: { pk_test: 'sk_test' } });
+    expect(await verifier.verify({ method: 'GET', url: sent[0].url, headers: new Headers(sent[0].headers) })).toMatchObject({ valid: true });
+  });
+
+  it('lets a middleware answer without calling next, or transform the response', async () => {
+    const { http, sent } = client([200]);
+    http.use(async (request, next) => {
+      if (request.url === '/health') {
+        return { data: { ok: 'local' }, status: 200, statusText: 'OK', headers: {} };
+      }
+      const response = await next(request);
+      return { ...response, data: { ...response.data, seen: true } };
+    });
+
+    await expect(http.get('/health')).resolves.toMatchObject({ data: { ok: 'local' } });
+    expect(sent).toHaveLength(0);
+    await expect(http.get('/products')).resolves.toMatchObject({ data: { data: { ok: true }, seen: true } });
+  });
+
+  it('removes a middleware through the returned function', async () => {
+    const { http } = client([200]);
+    const middleware = jest.fn((request, next) => next(request));
+    const remove = http.use(middleware);
+
+    await http.get('/products');
+    remove();
+    await http.get('/products');
+
+    expect(middleware).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('UniversalHttpClient transport', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('sends every request through the transport instead of the global fetch', async () => {
+    const fetch = jest.spyOn(globalThis, 'fetch').mockRejectedValue(new Error('global fetch called'));
+    const transport = jest.fn<Promise<Response>, [string, RequestInit]>(async () => json({ success: true, data: { count: 1 } }));
+    const http = new UniversalHttpClient({ baseUrl: 'http://storefront.test/api', transport }, signer());
+
+    await expect(http.post('/cart/add', { product_id: 1 })).resolves.toMatchObject({ status: 200 });
+
+    expect(fetch).not.toHaveBeenCalled();
+    const [url, init] = transport.mock.calls[0];
+    expect(url).toBe('http://storefront.test/api/cart/add');
+    expect(init).toMatchObject({ method: 'POST', body: '{"product_id":1}' });
+    expect(init.signal).toBeInstanceOf(AbortSignal);
+  });
+
+  it('maps a rejected transport call to a NetworkError', async () => {
+    const http = new UniversalHttpClient({
+      baseUrl: 'http://storefront.test/api',
+      maxRetries: 0,
+      transport: async () => { throw new TypeError('fetch failed'); }
+    }, signer());
+
+    await expect(http.get('/products')).rejects.toBeInstanceOf(NetworkError);
+  });
+});
+
+describe('UniversalHttpClient abort', () => {
+  /**
+   * Transport that never answers; it rejects like fetch once the request signal aborts
+   */
+  function hanging(sent: string[], onSend: () => void = () => undefined) {
+    return (url: string, init: RequestInit) => new Promise<Response>((_resolve, reject) => {
+      sent.push(url);
+      init.signal?.addEventListener('abort', () => reject(new DOMException('The operation was aborted', 'AbortError')));
+      onSend();
+    });
+  }
+
+  it('fails with an AbortError and never retries when the signal aborts in flight', async () => {
+    const sent: string[] = [];
+    const controller = new AbortController();
+    const transport = hanging(sent, () => controller.abort());
+    const http = new UniversalHttpClient({ baseUrl: 'http://storefront.test/api', retryDelay: 0, transport }, signer());
+
+    await expect(http.get('/products/search', { q: 'sh' }, undefined, { signal: controller.signal })).rejects.toBeInstanceOf(AbortError);
+    expect(sent).toHaveLength(1);
+  });
+
+  it('sends nothing for a signal that is already aborted', async () => {
+    const { http, sent } = client([200]);
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(http.get('/products', undefined, undefined, { signal: controller.signal })).rejects.toBeInstanceOf(AbortError);
+    expect(sent).toHaveLength(0);
+  });
+
+  it('stops waiting for the next retry when the signal aborts', async () => {
+    const controller = new AbortController();
+    const sent: string[] = [];
+    const http = new UniversalHttpClient({
+      baseUrl: 'http://storefront.test/api',
+      retryDelay: 60_000,
+      transport: async (url) => {
+        sent.push(url);
+        setTimeout(() => controller.abort(), 0);
+        return json({ success: false, message: 'unavailable' }, 503);
+      }
+    }, signer());
+
+    await expect(http.get('/products', undefined, undefined, { signal: controller.signal })).rejects.toBeInstanceOf(AbortError);
+    expect(sent).toHaveLength(1);
+  });
+
+  it('tells an abort apart from a timeout', async () => {
+    const http = new UniversalHttpClient({ baseUrl: 'http://storefront.test/api', timeout: 5, maxRetries: 0, transport: hanging([]) }, signer());
+
+    const error = await http.get('/products').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(StorefrontError);
+    expect(error).not.toBeInstanceOf(AbortError);
+  });
+});
+
+describe('UniversalHttpClient circuit breaker', () => {
+  it('fails fast with a CircuitOpenError once the API keeps failing', async () => {
+    const { http, sent } = client([503], { maxRetries: 0, circuitBreaker: { failureThreshold: 2, cooldown: 60_000 } });
+
+    await expect(http.get('/products')).rejects.toMatchObject({ status: 503 });
+    await expect(http.get('/store')).rejects.toMatchObject({ status: 503 });
+    const error = await http.get('/categories').catch(caught => caught);
+
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error.retryAt).toBe(http.getCircuitBreaker()!.getRetryAt());
+    expect(sent).toHaveLength(2);
+  });
+
+  it('does not count client errors as failures', async () => {
+    const { http } = client([404], { maxRetries: 0, circuitBreaker: { failureThreshold: 1 } });
+
+    await expect(http.get('/products/missing')).rejects.toMatchObject({ status: 404 });
+
+    expect(http.getCircuitBreaker()!.getState()).toBe('closed');
+  });
+});
+
+describe('UniversalHttpClient deduplication', () => {
+  /**
+   * Client whose transport holds every response until `release()`; aborted requests reject like fetch
+   */
+  function held(config: Partial<HttpConfig> = {}) {
+    const security = signer();
+    const sent: Array<{ url: string; signal?: AbortSignal | null }> = [];
+    const pending: Array<() => void> = [];
+    const http = new UniversalHttpClient({
+      baseUrl: 'http://storefront.test/api',
+      transport: (url, init) => new Promise((resolve, reject) => {
+        sent.push({ url, signal: init.signal });
+        init.signal?.addEventListener('abort', () => reject(new DOMException('The operation was aborted', 'AbortError')));
+        pending.push(() => resolve(json({ success: true, data: { call: sent.length } })));
+      }),
+      ...config
+    }, security);
+
+    // Wait until `count` requests reached the transport (signing is asynchronous)
+    const sentCount = async (count: number) => {
+      while (sent.length < count) {
+        await new Promise(resolve => setTimeout(resolve, 1));
+      }
+    };
+    const release = async (count: number) => {
+      await sentCount(count);
+      pending.splice(0).forEach(respond => respond());
+    };
+    return { http, security, sent, sentCount, release };
+  }
+
+  it('shares one request between identical concurrent GETs', async () => {
+    const { http, sent, release } = held();
+
+    const calls = Promise.all([http.get('/products', { page: 1 }), http.get('/products', { page: 1 }), http.get('/products', { page: 2 })]);
+    await release(2);
+
+    const [a, b] = await calls;
+    expect(a.data).toEqual(b.data);
+    expect(sent.map(request => request.url)).toEqual([
+      'http://storefront.test/api/products?page=1',
+      'http://storefront.test/api/products?page=2'
+    ]);
+
+    const again = http.get('/products', { page: 1 });
+    await release(3);
+    await again;
+    expect(sent).toHaveLength(3);
+  });
+
+  it('keeps requests made with different tokens apart', async () => {
+    const { http, security, release } = held();
+
+    const guest = http.get('/cart');
+    security.setAuthToken('customer-token');
+    const customer = http.get('/cart');
+    await release(2);
+
+    await expect(Promise.all([guest, customer])).resolves.toHaveLength(2);
+  });
+
+  it('can be turned off per call or per client', async () => {
+    const perCall = held();
+    const calls = Promise.all([perCall.http.get('/store'), perCall.http.get('/store', undefined, undefined, { dedupe: false })]);
+    await perCall.release(2);
+    await calls;
+    expect(perCall.sent).toHaveLength(2);
+
+    const perClient = held({ dedupe: false });
+    const clientCalls = Promise.all([perClient.http.get('/store'), perClient.http.get('/store')]);
+    await perClient.release(2);
+    await clientCalls;
+    expect(perClient.sent).toHaveLength(2);
+  });
+
+  it('aborts the shared request only once every caller has aborted', async () => {
+    const { http, sent, sentCount } = held();
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const a = http.get('/store', undefined, undefined, { signal: first.signal });
+    const b = http.get('/store', undefined, undefined, { signal: second.signal });
+    await sentCount(1);
+    first.abort();
+
+    await expect(a).rejects.toBeInstanceOf(AbortError);
+    expect(sent[0].signal?.aborted).toBe(false);
+
+    second.abort();
+    await expect(b).rejects.toBeInstanceOf(AbortError);
+    expect(sent[0].signal?.aborted).toBe(true);
+    expect(sent).toHaveLength(1);
+  });
+});
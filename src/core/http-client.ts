@@ -5,6 +5,49 @@
 
 import { Environment } from './environment';
 import { SecurityManager } from './security';
+import {
+  StorefrontError,
+  NetworkError,
+  TimeoutError,
+  AbortError,
+  RateLimitError,
+  CircuitOpenError,
+  createHttpError
+} from './errors';
+import { RateLimiter, type RateLimiterConfig, type RateLimitStatus } from './rate-limiter';
+import { CircuitBreaker, type CircuitBreakerConfig } from './circuit-breaker';
+import { ResponseCache, type CacheConfig } from './cache';
+import { Telemetry, SpanKind, routeTemplate, type Attributes, type TelemetryConfig } from './telemetry';
+import { Download, type DownloadOptions } from './download';
+import { hasFiles, isFormData, multipartManifest, spoofMethod, toFormData } from './multipart';
+import { ConnectionManager, type ConnectionConfig } from './connection';
+import type { Logger } from './logger';
+
+/**
+ * Fetch-compatible transport (instrumented fetch, undici, service bindings, test fakes)
+ */
+export type HttpTransport = (input: string, init: RequestInit) => Promise<Response>;
+
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'OPTIONS';
+
+/**
+ * When a failed request may be retried:
+ * - 'always': on any retryable failure
+ * - 'idempotent': only when the request carries an Idempotency-Key
+ * - 'never': not at all
+ */
+export type RetryMode = 'always' | 'idempotent' | 'never';
+
+export type RetryPolicy = Partial<Record<HttpMethod, RetryMode>>;
+
+const DEFAULT_RETRY_POLICY: Record<HttpMethod, RetryMode> = {
+  GET: 'always',
+  PUT: 'always',
+  DELETE: 'always',
+  OPTIONS: 'always',
+  POST: 'idempotent',
+  PATCH: 'idempotent'
+};
 
 export interface HttpConfig {
   baseUrl: string;
@@ -12,14 +55,50 @@ export interface HttpConfig {
   maxRetries: number;
   retryDelay: number;
   headers: Record<string, string>;
+  transport?: HttpTransport;
+  retryPolicy: RetryPolicy;
+  idempotencyKeys: boolean; // Generate an Idempotency-Key for non-GET requests (off by default)
+  rateLimit?: RateLimiterConfig | boolean; // Client-side token bucket (off by default)
+  circuitBreaker?: CircuitBreakerConfig | boolean; // Fail fast while the API is down (off by default)
+  dedupe: boolean; // Share one network request between identical concurrent GETs
+  cache?: CacheConfig | boolean; // Cache GET responses per route (off by default)
+  telemetry?: TelemetryConfig; // Spans and duration metrics per request
+  connection?: ConnectionConfig | boolean; // Node.js keep-alive, proxy and CA settings (off by default)
+  logger?: Logger;
 }
 
 export interface HttpRequest {
-  method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'OPTIONS';
+  method: HttpMethod;
   url: string;
   data?: any;
   headers?: Record<string, string>;
   timeout?: number;
+  signal?: AbortSignal;
+  idempotencyKey?: string;
+  route?: string; // Route template for telemetry (default: derived from the URL)
+  stream?: boolean; // Return the unread fetch Response as `data` on success (downloads)
+}
+
+/**
+ * Per-call options for the convenience methods
+ */
+export interface HttpRequestOptions {
+  signal?: AbortSignal;
+  idempotencyKey?: string; // Overrides the generated key (mutating requests only)
+  dedupe?: boolean; // Set to false to opt a GET out of in-flight deduplication
+  cache?: boolean; // Set to false to bypass the response cache for a GET
+  route?: string; // Route template for telemetry, e.g. '/products/:slug'
+}
+
+/**
+ * Options for `download()`; downloads are never cached or deduplicated
+ */
+export interface DownloadRequestOptions extends Omit<HttpRequestOptions, 'dedupe' | 'cache' | 'idempotencyKey'>, DownloadOptions {}
+
+interface InflightRequest {
+  promise: Promise<HttpResponse>;
+  controller: AbortController;
+  subscribers: number;
 }
 
 export interface HttpResponse<T = any> {
@@ -27,11 +106,37 @@ export interface HttpResponse<T = any> {
   status: number;
   statusText: string;
   headers: Record<string, string>;
+  cached?: 'hit' | 'stale' | 'revalidated'; // Set when the response came from the cache
 }
 
+/**
+ * Terminal step of the middleware chain (or the next middleware in line)
+ */
+export type HttpHandler = (request: HttpRequest) => Promise<HttpResponse>;
+
+/**
+ * Request/response middleware.
+ * Runs before headers are merged and the request is signed, so it may rewrite
+ * the request, transform the response returned by `next`, or skip `next`
+ * entirely to short-circuit with its own response.
+ */
+export type HttpMiddleware = (request: HttpRequest, next: HttpHandler) => Promise<HttpResponse>;
+
+/**
+ * Retries performed for a response or final error, for telemetry
+ */
+const retryCounts = new WeakMap<object, number>();
+
 export class UniversalHttpClient {
   private config: HttpConfig;
   private security: SecurityManager;
+  private middlewares: HttpMiddleware[] = [];
+  private rateLimiter?: RateLimiter;
+  private circuitBreaker?: CircuitBreaker;
+  private inflight: Map<string, InflightRequest> = new Map();
+  private responseCache?: ResponseCache;
+  private telemetry?: Telemetry;
+  private connection?: ConnectionManager;
 
   constructor(config: Partial<HttpConfig>, security: SecurityManager) {
     this.config = {
@@ -43,31 +148,158 @@ export class UniversalHttpClient {
         'Accept': 'application/json'
       },
       ...config,
+      retryPolicy: { ...DEFAULT_RETRY_POLICY, ...config.retryPolicy },
+      idempotencyKeys: config.idempotencyKeys ?? false,
+      dedupe: config.dedupe ?? true,
       baseUrl: config.baseUrl || ''
     };
     this.security = security;
+
+    if (this.config.rateLimit) {
+      this.rateLimiter = new RateLimiter(this.config.rateLimit === true ? {} : this.config.rateLimit);
+    }
+    if (this.config.circuitBreaker) {
+      this.circuitBreaker = new CircuitBreaker(this.config.circuitBreaker === true ? {} : this.config.circuitBreaker);
+    }
+    if (this.config.cache) {
+      this.responseCache = new ResponseCache(this.config.cache === true ? {} : this.config.cache);
+    }
+    if (this.config.telemetry) {
+      this.telemetry = new Telemetry(this.config.telemetry);
+    }
+    if (this.config.connection) {
+      this.connection = new ConnectionManager(this.config.connection === true ? {} : this.config.connection, this.config.logger);
+    }
+  }
+
+  /**
+   * Close pooled keep-alive connections, e.g. before a serverless function or process exits
+   */
+  async close(): Promise<void> {
+    await this.connection?.close();
+  }
+
+  /**
+   * Drop cached responses carrying any of the tags (no-op when caching is disabled)
+   */
+  async invalidateCache(tags: string | string[]): Promise<void> {
+    await this.responseCache?.invalidate(tags);
+  }
+
+  /**
+   * Drop every cached response
+   */
+  async clearCache(): Promise<void> {
+    await this.responseCache?.clear();
   }
 
   /**
-   * Make HTTP request with automatic retry and security headers
+   * Circuit breaker instance, for state inspection and `stateChange` events (null when disabled)
+   */
+  getCircuitBreaker(): CircuitBreaker | null {
+    return this.circuitBreaker || null;
+  }
+
+  /**
+   * Current client-side rate limit budget (null when rate limiting is disabled)
+   */
+  getRateLimitStatus(): RateLimitStatus | null {
+    return this.rateLimiter ? this.rateLimiter.getStatus() : null;
+  }
+
+  /**
+   * Register a middleware. Middlewares run in registration order.
+   * Returns a function that removes the middleware again.
+   */
+  use(middleware: HttpMiddleware): () => void {
+    this.middlewares.push(middleware);
+
+    return () => {
+      this.middlewares = this.middlewares.filter(m => m !== middleware);
+    };
+  }
+
+  /**
+   * Make HTTP request through the middleware chain
    */
   async request<T = any>(request: HttpRequest): Promise<HttpResponse<T>> {
-    const url = this.buildUrl(request.url);
-    const body = request.data ? JSON.stringify(request.data) : '';
-    
-    // Get security headers
-    const authHeaders = this.security.getAuthHeaders(
-      request.method,
-      new URL(url).pathname,
-      body
+    return this.observe(request, (traceHeaders) =>
+      this.dispatch<T>({ ...request, headers: { ...traceHeaders, ...request.headers } })
     );
+  }
+
+  /**
+   * Run the middleware chain, invalidating cached reads after mutations
+   */
+  private async dispatch<T = any>(request: HttpRequest): Promise<HttpResponse<T>> {
+    const chain = this.middlewares.reduceRight<HttpHandler>(
+      (next, middleware) => (req) => middleware(req, next),
+      (req) => this.send(req)
+    );
+
+    const run = () => chain({ ...request, headers: { ...request.headers } }) as Promise<HttpResponse<T>>;
+
+    if (!this.responseCache || request.method === 'GET' || request.method === 'OPTIONS') {
+      return run();
+    }
+
+    // Mutations invalidate cached reads of the same resource, whether or not they succeeded
+    try {
+      return await run();
+    } finally {
+      await this.responseCache.invalidateFor(request.method, this.routePath(request.url)).catch(() => undefined);
+    }
+  }
+
+  /**
+   * Send request with automatic retry and security headers
+   */
+  private async send<T = any>(request: HttpRequest): Promise<HttpResponse<T>> {
+    const url = this.buildUrl(request.url);
+    let method = request.method;
+    let body: string | FormData = request.data ? JSON.stringify(request.data) : '';
+    let signedBody = body;
+
+    // Payloads carrying files go out as multipart, signed through their manifest
+    if (isFormData(request.data) || hasFiles(request.data)) {
+      const spoofed = spoofMethod(method, isFormData(request.data) ? request.data : toFormData(request.data));
+      method = spoofed.method;
+      body = spoofed.form;
+      signedBody = await multipartManifest(body);
+    }
+
+    // Let fetch set the multipart boundary
+    const requestHeaders = { ...this.config.headers, ...request.headers };
+    if (typeof body !== 'string') {
+      dropHeader(requestHeaders, 'content-type');
+    }
+
+    // One Idempotency-Key per logical request, reused across retries and signed by v2 along with the other headers
+    const idempotencyKey = this.resolveIdempotencyKey(request, requestHeaders);
+    if (idempotencyKey) {
+      requestHeaders['Idempotency-Key'] = idempotencyKey;
+    }
+    const retryable = this.isRetryable(request.method, !!idempotencyKey);
+
+    // Get security headers (signature v1 covers the path and query, v2 the whole URL and signed headers)
+    const target = new URL(url);
+    const signedPath = target.pathname + target.search;
+    const signing = { url, headers: requestHeaders };
+    const authHeaders = await this.security.getAuthHeaders(method, signedPath, signedBody, signing);
 
     // Merge headers
-    const headers = {
+    const headers: Record<string, string> = {
       ...this.config.headers,
       ...authHeaders,
       ...request.headers
     };
+    if (typeof body !== 'string') {
+      dropHeader(headers, 'content-type');
+    }
+    if (idempotencyKey) {
+      dropHeader(headers, 'idempotency-key');
+      headers['Idempotency-Key'] = idempotencyKey;
+    }
 
     // Add User-Agent for Node.js
     if (Environment.info.isNode) {
@@ -75,27 +307,64 @@ export class UniversalHttpClient {
     }
 
     let lastError: Error;
+    let retries = 0;
 
     // Retry logic
     for (let attempt = 0; attempt <= this.config.maxRetries; attempt++) {
+      retries = attempt;
+
       try {
+        if (request.signal?.aborted) {
+          throw this.createAbortError();
+        }
+
+        if (this.circuitBreaker && !this.circuitBreaker.tryAcquire()) {
+          throw new CircuitOpenError('Circuit breaker is open, request not sent', {
+            retryAt: this.circuitBreaker.getRetryAt() ?? undefined
+          });
+        }
+
+        await this.rateLimiter?.acquire(request.signal);
+
+        // Retries are signed afresh: the timestamp may have aged, the primary key rotated, and a nonce is only accepted once
+        if (attempt > 0) {
+          const resigned = await this.security.getAuthHeaders(method, signedPath, signedBody, signing);
+          for (const key of ['X-Timestamp', 'X-Key-Id', 'X-Nonce', 'X-Signature']) {
+            if (resigned[key]) {
+              headers[key] = resigned[key];
+            }
+          }
+        }
+
         const response = await this.makeRequest({
           ...request,
+          method,
           url,
           headers
         }, body);
+        this.rateLimiter?.update(response.headers);
 
-        // Validate response security
-        if (!this.security.validateResponse(response.data)) {
-          throw new Error('Invalid response format');
+        // Validate response security (304 has no body, the cache supplies it; downloads are binary)
+        if (response.status !== 304 && !request.stream && !this.security.validateResponse(response.data)) {
+          throw new StorefrontError('Invalid response format', { status: response.status });
         }
 
+        this.circuitBreaker?.onSuccess();
+        retryCounts.set(response, retries);
         return response as HttpResponse<T>;
       } catch (error) {
         lastError = error as Error;
+        this.recordCircuitOutcome(error);
+
+        if (this.rateLimiter && error instanceof StorefrontError && error.response?.headers) {
+          this.rateLimiter.update(error.response.headers);
+        }
+        if (this.rateLimiter && error instanceof RateLimitError && error.retryAfter) {
+          this.rateLimiter.pause(error.retryAfter * 1000);
+        }
         
         // Don't retry on certain errors
-        if (this.shouldNotRetry(error as Error) || attempt === this.config.maxRetries) {
+        if (!retryable || this.shouldNotRetry(error as Error) || attempt === this.config.maxRetries) {
           break;
         }
 
@@ -103,36 +372,37 @@ export class UniversalHttpClient {
         let retryDelay = this.config.retryDelay * Math.pow(2, attempt);
         
         // Handle rate limiting with Retry-After header
-        const status = (error as any).status || (error as any).response?.status;
-        if (status === 429) {
-          const retryAfter = (error as any).response?.headers?.['retry-after'];
-          if (retryAfter) {
-            // Retry-After can be in seconds or HTTP date
-            const retryAfterMs = isNaN(retryAfter) 
-              ? new Date(retryAfter).getTime() - Date.now()
-              : parseInt(retryAfter) * 1000;
-            
-            if (retryAfterMs > 0 && retryAfterMs < 60000) { // Max 60 seconds
-              retryDelay = retryAfterMs;
-            }
+        if (error instanceof RateLimitError && error.retryAfter !== undefined) {
+          const retryAfterMs = error.retryAfter * 1000;
+
+          if (retryAfterMs > 0 && retryAfterMs < 60000) { // Max 60 seconds
+            retryDelay = retryAfterMs;
           }
         }
 
         // Wait before retry
-        await this.delay(retryDelay);
+        try {
+          await this.delay(retryDelay, request.signal);
+        } catch (abortError) {
+          lastError = abortError as Error;
+          break;
+        }
       }
     }
 
+    if (lastError! instanceof Error) {
+      retryCounts.set(lastError, retries);
+    }
     throw lastError!;
   }
 
   /**
    * Make the actual HTTP request based on environment
    */
-  private async makeRequest<T>(request: HttpRequest & { url: string }, body: string): Promise<HttpResponse<T>> {
+  private async makeRequest<T>(request: HttpRequest & { url: string }, body: string | FormData): Promise<HttpResponse<T>> {
     const timeout = request.timeout || this.config.timeout;
 
-    if (Environment.info.isBrowser || Environment.hasFetch()) {
+    if (this.config.transport || Environment.info.isBrowser || Environment.hasFetch()) {
       return this.fetchRequest(request, body, timeout);
     } else if (Environment.info.isNode) {
       return this.nodeRequest(request, body, timeout);
@@ -144,41 +414,51 @@ export class UniversalHttpClient {
   /**
    * Fetch-based request (Browser/Node.js with fetch)
    */
-  private async fetchRequest<T>(request: HttpRequest & { url: string }, body: string, timeout: number): Promise<HttpResponse<T>> {
+  private async fetchRequest<T>(request: HttpRequest & { url: string }, body: string | FormData, timeout: number): Promise<HttpResponse<T>> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), timeout);
 
+    // Forward caller cancellation to the request controller
+    const onAbort = () => controller.abort();
+    if (request.signal?.aborted) {
+      controller.abort();
+    } else {
+      request.signal?.addEventListener('abort', onAbort, { once: true });
+    }
+
     try {
       const fetchOptions: RequestInit = {
         method: request.method,
         headers: request.headers,
-        signal: controller.signal
+        signal: controller.signal,
+        ...this.connection?.fetchOptions(request.url)
       };
 
       if (request.method !== 'GET') {
         fetchOptions.body = body;
       }
 
-      const response = await fetch(request.url, fetchOptions);
+      const response = this.config.transport
+        ? await this.config.transport(request.url, fetchOptions)
+        : await fetch(request.url, fetchOptions);
       clearTimeout(timeoutId);
 
-      const responseData = await this.parseResponse(response);
+      // A streamed body stays cancellable through the caller's signal
+      const streaming = !!request.stream && response.ok;
+      if (!streaming) {
+        request.signal?.removeEventListener('abort', onAbort);
+      }
+
+      const responseData = response.status === 304 ? null : streaming ? response : await this.parseResponse(response);
 
       // Check for HTTP error status codes
-      if (!response.ok) {
-        // Create a plain object error instead of Error instance to avoid stack traces
-        const error = {
-          message: responseData.message || `HTTP ${response.status}: ${response.statusText}`,
-          response: {
-            data: responseData,
-            status: response.status,
-            statusText: response.statusText,
-            headers: this.extractHeaders(response.headers)
-          },
+      if (!response.ok && response.status !== 304) {
+        throw createHttpError({
+          data: responseData,
           status: response.status,
-          name: 'HttpError'
-        };
-        throw error;
+          statusText: response.statusText,
+          headers: this.extractHeaders(response.headers)
+        });
       }
 
       return {
@@ -189,6 +469,14 @@ export class UniversalHttpClient {
       };
     } catch (error) {
       clearTimeout(timeoutId);
+      request.signal?.removeEventListener('abort', onAbort);
+
+      if (request.signal?.aborted) {
+        throw this.createAbortError();
+      }
+      if (controller.signal.aborted) {
+        throw this.createTimeoutError(timeout);
+      }
       throw this.normalizeError(error);
     }
   }
@@ -196,7 +484,7 @@ export class UniversalHttpClient {
   /**
    * Node.js request (fallback for environments without fetch)
    */
-  private async nodeRequest<T>(request: HttpRequest & { url: string }, body: string, timeout: number): Promise<HttpResponse<T>> {
+  private async nodeRequest<T>(request: HttpRequest & { url: string }, body: string | FormData, timeout: number): Promise<HttpResponse<T>> {
     // Try to use available Node.js HTTP client
     const httpClient = Environment.getHttpClient();
     
@@ -207,9 +495,12 @@ export class UniversalHttpClient {
         const response = await axios({
           method: request.method,
           url: request.url,
-          data: request.method !== 'GET' ? JSON.parse(body || '{}') : undefined,
+          data: request.method === 'GET' ? undefined : typeof body === 'string' ? JSON.parse(body || '{}') : body,
           headers: request.headers,
-          timeout
+          timeout,
+          signal: request.signal,
+          ...this.connection?.axiosOptions(request.url),
+          validateStatus: (status: number) => (status >= 200 && status < 300) || status === 304
         });
 
         return {
@@ -219,6 +510,9 @@ export class UniversalHttpClient {
           headers: response.headers
         };
       } catch (error: any) {
+        if (request.signal?.aborted) {
+          throw this.createAbortError();
+        }
         throw this.normalizeError(error);
       }
     } else {
@@ -273,10 +567,143 @@ export class UniversalHttpClient {
     return `${baseUrl}${cleanPath}`;
   }
 
+  /**
+   * Append query parameters, skipping empty values
+   */
+  private withParams(url: string, params?: Record<string, any>): string {
+    if (!params || Object.keys(params).length === 0) {
+      return url;
+    }
+
+    const searchParams = new URLSearchParams();
+
+    for (const [key, value] of Object.entries(params)) {
+      if (value !== undefined && value !== null && value !== '') {
+        searchParams.append(key, String(value));
+      }
+    }
+
+    const queryString = searchParams.toString();
+    return queryString ? url + (url.includes('?') ? '&' : '?') + queryString : url;
+  }
+
+  /**
+   * Wrap a logical request (including cache hits and retries) in a client span
+   * and record its duration. `run` receives the trace context headers to send.
+   */
+  private async observe<T>(
+    request: HttpRequest,
+    run: (traceHeaders: Record<string, string>) => Promise<HttpResponse<T>>
+  ): Promise<HttpResponse<T>> {
+    const telemetry = this.telemetry;
+    if (!telemetry) {
+      return run({});
+    }
+
+    const route = request.route || routeTemplate(this.routePath(request.url));
+    const initial = { 'http.request.method': request.method, 'http.route': route };
+    const attributes: Attributes = { ...initial };
+    const started = Date.now();
+
+    return telemetry.trace(`${request.method} ${route}`, { kind: SpanKind.CLIENT, attributes: initial }, async (span) => {
+      try {
+        const response = await run(telemetry.traceHeaders(span));
+        attributes['http.response.status_code'] = response.status;
+        attributes['http.request.resend_count'] = retryCounts.get(response);
+        if (this.responseCache && request.method === 'GET') {
+          attributes['storefront.cache'] = response.cached || 'miss';
+        }
+        return response;
+      } catch (error: any) {
+        attributes['http.response.status_code'] = error?.status;
+        attributes['http.request.resend_count'] = error instanceof Error ? retryCounts.get(error) : undefined;
+        attributes['error.type'] = error?.name || 'Error';
+        throw error;
+      } finally {
+        telemetry.annotate(span, attributes);
+        telemetry.recordDuration('http.client.request.duration', 'Duration of Storefront API requests', Date.now() - started, attributes);
+      }
+    });
+  }
+
+  /**
+   * Route path of a URL relative to the base URL, without query string
+   */
+  private routePath(url: string): string {
+    const pathname = new URL(this.buildUrl(url), 'http://localhost').pathname;
+
+    try {
+      const basePath = new URL(this.config.baseUrl).pathname.replace(/\/$/, '');
+      if (basePath && pathname.startsWith(basePath)) {
+        return pathname.slice(basePath.length) || '/';
+      }
+    } catch {
+      // Relative or empty base URL
+    }
+
+    return pathname;
+  }
+
+  /**
+   * Report a failed attempt to the circuit breaker.
+   * Only network failures and 5xx count; API-level errors prove the server is up.
+   */
+  private recordCircuitOutcome(error: any): void {
+    if (!this.circuitBreaker || error instanceof CircuitOpenError) {
+      return;
+    }
+
+    if (error instanceof AbortError) {
+      this.circuitBreaker.release();
+    } else if (error instanceof NetworkError || (error.status && error.status >= 500)) {
+      this.circuitBreaker.onFailure();
+    } else if (error.status) {
+      this.circuitBreaker.onSuccess();
+    } else {
+      this.circuitBreaker.release();
+    }
+  }
+
+  /**
+   * Idempotency-Key for the request: explicit key, caller header, or a generated one when `idempotencyKeys` is on.
+   * Without one, POST and PATCH are not retried.
+   */
+  private resolveIdempotencyKey(request: HttpRequest, headers: Record<string, string>): string | undefined {
+    if (request.idempotencyKey) {
+      return request.idempotencyKey;
+    }
+
+    const existing = Object.keys(headers).find(key => key.toLowerCase() === 'idempotency-key');
+    if (existing) {
+      const value = headers[existing];
+      dropHeader(headers, 'idempotency-key');
+      return value;
+    }
+
+    if (this.config.idempotencyKeys && request.method !== 'GET' && request.method !== 'OPTIONS') {
+      return this.security.generateSecureRandom(16);
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Check the retry policy for a method
+   */
+  private isRetryable(method: HttpMethod, hasIdempotencyKey: boolean): boolean {
+    const mode = this.config.retryPolicy[method] || 'never';
+    return mode === 'always' || (mode === 'idempotent' && hasIdempotencyKey);
+  }
+
   /**
    * Check if error should not be retried
    */
   private shouldNotRetry(error: any): boolean {
+    // Never retry requests the caller cancelled or the circuit breaker refused
+    if (error instanceof AbortError || error instanceof CircuitOpenError) {
+      return true;
+    }
+
     // Get the HTTP status code from the error
     const status = error.status || error.response?.status;
     
@@ -295,88 +722,221 @@ export class UniversalHttpClient {
 
     // Don't retry on certain network errors
     const nonRetryableErrors = ['ENOTFOUND', 'ECONNREFUSED', 'CERT_', 'ABORT_ERR'];
-    return nonRetryableErrors.some(err => error.message?.includes(err));
+    const causeCode = String(error.cause?.code || error.cause?.cause?.code || '');
+    return nonRetryableErrors.some(err => error.message?.includes(err) || causeCode.includes(err));
   }
 
   /**
-   * Normalize errors across different HTTP clients
+   * Normalize errors across different HTTP clients into typed errors
    */
-  private normalizeError(error: any): any {
-    // If the error already has the proper structure (from our error handling), return it as-is
-    if (error.response && error.response.data) {
+  private normalizeError(error: any): StorefrontError {
+    if (error instanceof StorefrontError) {
       return error;
     }
-    
-    if (error.response) {
-      // Axios-style error - return as plain object
-      return {
-        message: `HTTP ${error.response.status}: ${error.response.statusText}`,
-        response: error.response,
+
+    if (error?.response) {
+      // Axios-style error
+      return createHttpError({
+        data: error.response.data,
         status: error.response.status,
-        name: 'HttpError'
-      };
-    } else if (error.status) {
-      // Fetch-style error - return as plain object
-      return {
-        message: `HTTP ${error.status}: ${error.statusText}`,
-        status: error.status,
-        name: 'HttpError'
-      };
-    } else {
-      // Network or other error - only create Error object for genuine network errors
-      if (error instanceof Error && (error.name === 'TypeError' || error.name === 'NetworkError')) {
-        return error; // Keep genuine network errors as Error objects
+        statusText: error.response.statusText,
+        headers: this.extractHeaders(error.response.headers || {})
+      });
+    }
+
+    if (error?.code === 'ECONNABORTED' || error?.code === 'ETIMEDOUT') {
+      return new TimeoutError(error.message, { cause: error });
+    }
+
+    // Fetch rejects with a TypeError on network failure, axios sets `request` without `response`
+    if (error instanceof TypeError || error?.name === 'NetworkError' || error?.request) {
+      return new NetworkError(error.message || 'Network request failed', { cause: error });
+    }
+
+    return new StorefrontError(error instanceof Error ? error.message : String(error), { cause: error });
+  }
+
+  /**
+   * Error raised when the caller aborts a request (never retried)
+   */
+  private createAbortError(): AbortError {
+    return new AbortError();
+  }
+
+  /**
+   * Error raised when the request timeout elapses (retryable)
+   */
+  private createTimeoutError(timeout: number): TimeoutError {
+    return new TimeoutError(`Request timed out after ${timeout}ms`);
+  }
+
+  /**
+   * Delay utility for retries, cut short when the signal aborts
+   */
+  private delay(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(this.createAbortError());
+        return;
       }
-      // For other errors, return as plain object
-      return {
-        message: String(error),
-        name: 'UnknownError'
+
+      const onAbort = () => {
+        clearTimeout(timeoutId);
+        reject(this.createAbortError());
       };
-    }
+      const timeoutId = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
   }
 
   /**
-   * Delay utility for retries
+   * Identity of a GET: URL, extra headers and the auth/cart tokens it is sent with
    */
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private dedupeKey(url: string, headers?: Record<string, string>): string {
+    return JSON.stringify([
+      this.buildUrl(url),
+      headers || {},
+      this.security.getAuthToken() || '',
+      this.security.getCartToken() || ''
+    ]);
+  }
+
+  /**
+   * Join (or start) the in-flight request for a key.
+   * The shared request is only aborted once every subscriber has aborted.
+   */
+  private shared<T>(key: string, request: HttpRequest): Promise<HttpResponse<T>> {
+    if (request.signal?.aborted) {
+      return Promise.reject(this.createAbortError());
+    }
+
+    let entry = this.inflight.get(key);
+
+    if (!entry) {
+      const controller = new AbortController();
+      const created: InflightRequest = {
+        promise: this.dispatch({ ...request, signal: controller.signal }).finally(() => {
+          if (this.inflight.get(key) === created) {
+            this.inflight.delete(key);
+          }
+        }),
+        controller,
+        subscribers: 0
+      };
+      this.inflight.set(key, created);
+      entry = created;
+    }
+
+    const current = entry;
+    const signal = request.signal;
+    current.subscribers++;
+
+    if (!signal) {
+      return current.promise as Promise<HttpResponse<T>>;
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        current.subscribers--;
+        if (current.subscribers === 0) {
+          if (this.inflight.get(key) === current) {
+            this.inflight.delete(key);
+          }
+          current.controller.abort();
+        }
+        reject(this.createAbortError());
+      };
+
+      signal.addEventListener('abort', onAbort, { once: true });
+      current.promise.then(
+        response => {
+          signal.removeEventListener('abort', onAbort);
+          resolve(response as HttpResponse<T>);
+        },
+        error => {
+          signal.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
   }
 
   // Convenience methods
-  async get<T = any>(url: string, params?: Record<string, any>, headers?: Record<string, string>): Promise<HttpResponse<T>> {
-    let requestUrl = url;
-    
-    if (params && Object.keys(params).length > 0) {
-      const searchParams = new URLSearchParams();
-      
-      for (const [key, value] of Object.entries(params)) {
-        if (value !== undefined && value !== null && value !== '') {
-          searchParams.append(key, String(value));
+  async get<T = any>(url: string, params?: Record<string, any>, headers?: Record<string, string>, options?: HttpRequestOptions): Promise<HttpResponse<T>> {
+    const requestUrl = this.withParams(url, params);
+    const { dedupe, cache, ...requestOptions } = options || {};
+    const request: HttpRequest = { ...requestOptions, method: 'GET', url: requestUrl, headers };
+
+    return this.observe(request, (traceHeaders) => {
+      const fetchResponse = (conditionalHeaders: Record<string, string>): Promise<HttpResponse<T>> => {
+        const requestHeaders = Object.keys(conditionalHeaders).length > 0 ? { ...headers, ...conditionalHeaders } : headers;
+        const traced: HttpRequest = { ...request, headers: { ...traceHeaders, ...requestHeaders } };
+
+        if (dedupe === false || !this.config.dedupe) {
+          return this.dispatch<T>(traced);
         }
+
+        // Trace headers stay out of the key so concurrent callers still share the request
+        return this.shared<T>(this.dedupeKey(requestUrl, requestHeaders), traced);
+      };
+
+      if (this.responseCache && cache !== false) {
+        const key = this.dedupeKey(requestUrl, headers);
+        return this.responseCache.fetch(key, this.routePath(requestUrl), fetchResponse) as Promise<HttpResponse<T>>;
       }
-      
-      const queryString = searchParams.toString();
-      if (queryString) {
-        requestUrl += (url.includes('?') ? '&' : '?') + queryString;
-      }
-    }
-    
-    return this.request<T>({ method: 'GET', url: requestUrl, headers });
+
+      return fetchResponse({});
+    });
+  }
+
+  /**
+   * GET a binary resource; resolves once the headers arrive, the body is read through the Download
+   */
+  async download(url: string, params?: Record<string, any>, headers?: Record<string, string>, options: DownloadRequestOptions = {}): Promise<Download> {
+    const { onProgress, ...requestOptions } = options;
+    const response = await this.request<Response>({
+      ...requestOptions,
+      method: 'GET',
+      url: this.withParams(url, params),
+      headers: { 'Accept': '*/*', ...headers },
+      stream: true
+    });
+
+    return new Download(response.data, response.headers, { onProgress, signal: options.signal });
   }
 
-  async post<T = any>(url: string, data?: any, headers?: Record<string, string>): Promise<HttpResponse<T>> {
-    return this.request<T>({ method: 'POST', url, data, headers });
+  /**
+   * Signed URL for a GET, to hand to a browser (server-side only)
+   */
+  async signUrl(url: string, params?: Record<string, any>, expiresIn?: number): Promise<string> {
+    return this.security.signUrl(this.buildUrl(this.withParams(url, params)), expiresIn);
   }
 
-  async put<T = any>(url: string, data?: any, headers?: Record<string, string>): Promise<HttpResponse<T>> {
-    return this.request<T>({ method: 'PUT', url, data, headers });
+  async post<T = any>(url: string, data?: any, headers?: Record<string, string>, options?: HttpRequestOptions): Promise<HttpResponse<T>> {
+    return this.request<T>({ ...options, method: 'POST', url, data, headers });
   }
 
-  async patch<T = any>(url: string, data?: any, headers?: Record<string, string>): Promise<HttpResponse<T>> {
-    return this.request<T>({ method: 'PATCH', url, data, headers });
+  async put<T = any>(url: string, data?: any, headers?: Record<string, string>, options?: HttpRequestOptions): Promise<HttpResponse<T>> {
+    return this.request<T>({ ...options, method: 'PUT', url, data, headers });
   }
 
-  async delete<T = any>(url: string, headers?: Record<string, string>): Promise<HttpResponse<T>> {
-    return this.request<T>({ method: 'DELETE', url, headers });
+  async patch<T = any>(url: string, data?: any, headers?: Record<string, string>, options?: HttpRequestOptions): Promise<HttpResponse<T>> {
+    return this.request<T>({ ...options, method: 'PATCH', url, data, headers });
   }
-}
\ No newline at end of file
+
+  async delete<T = any>(url: string, headers?: Record<string, string>, options?: HttpRequestOptions): Promise<HttpResponse<T>> {
+    return this.request<T>({ ...options, method: 'DELETE', url, headers });
+  }
+}
+
+function dropHeader(headers: Record<string, string>, name: string): void {
+  for (const key of Object.keys(headers)) {
+    if (key.toLowerCase() === name) {
+      delete headers[key];
+    }
+  }
+}
@@ -0,0 +1,101 @@
+import { KeyRing } from './keyring';
+import { SecureStorefrontSDK } from '../secure-storefront-sdk';
+import { createRequestVerifier } from '../server/verify';
+
+describe('key rotation', () => {
+  const ok = () => new Response(JSON.stringify({ success: true, data: {} }), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' }
+  });
+
+  it('signs with the primary key and accepts any unexpired key', async () => {
+    const serverKeys = new KeyRing([{ id: 'k1', secret: 's1' }]);
+    const verifier = createRequestVerifier({ keys: { pk: serverKeys } });
+    const results: string[] = [];
+
+    const client = (keys: KeyRing) => new SecureStorefrontSDK({
+      apiUrl: 'http://storefront.test/api',
+      publicKey: 'pk',
+      keys,
+      maxRetries: 0,
+      transport: async (url, init) => {
+        const result = await verifier.verify({ method: init.method || 'GET', url, headers: new Headers(init.headers), body: init.body as string });
+        results.push(result.valid ? `ok:${result.keyId}` : result.reason);
+        return ok();
+      }
+    });
+
+    const current = client(new KeyRing([{ id: 'k1', secret: 's1' }]));
+    const rotated = new KeyRing([{ id: 'k1', secret: 's1' }]);
+    const next = { id: 'k2', secret: 's2' };
+    const at = Date.now() - 1000;
+    rotated.rotate(next, { at, overlap: 60 });
+    serverKeys.rotate(next, { at, overlap: 60 });
+
+    await current.store.get();
+    await client(rotated).store.get();
+    await client(new KeyRing([{ id: 'k9', secret: 's1' }])).store.get();
+    await client(new KeyRing([{ id: 'k2', secret: 'wrong' }])).store.get();
+
+    serverKeys.get('k1')!.expiresAt = Date.now() - 1;
+    await current.store.get();
+
+    expect(results).toEqual(['ok:k1', 'ok:k2', 'unknown_key', 'bad_signature', 'expired_key']);
+  });
+});
+
+describe('KeyRing', () => {
+  const now = Date.parse('2026-10-19T12:00:00Z');
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('signs with the most recently activated key that has not expired', () => {
+    const ring = new KeyRing([
+      { id: 'old', secret: 's0', notBefore: now - 60_000 },
+      { id: 'current', secret: 's1', notBefore: now - 1000 },
+      { id: 'scheduled', secret: 's2', notBefore: now + 1000 },
+      { id: 'expired', secret: 's3', notBefore: now - 10, expiresAt: now }
+    ]);
+
+    expect(ring.primary(now)?.id).toBe('current');
+    expect(ring.primary(now + 1000)?.id).toBe('scheduled');
+    expect(ring.verificationKeys(now).map(key => key.id)).toEqual(['old', 'current', 'scheduled']);
+  });
+
+  it('keeps the outgoing keys verifying for the overlap after a rotation', () => {
+    const ring = new KeyRing([{ id: 'k1', secret: 's1' }]);
+
+    ring.rotate({ id: 'k2', secret: 's2' }, { at: now + 10_000, overlap: 60 });
+
+    expect(ring.primary(now)?.id).toBe('k1');
+    expect(ring.primary(now + 10_000)?.id).toBe('k2');
+    expect(ring.get('k1')?.expiresAt).toBe(now + 70_000);
+    expect(ring.verificationKeys(now + 69_999).map(key => key.id)).toEqual(['k1', 'k2']);
+    expect(ring.verificationKeys(now + 70_000).map(key => key.id)).toEqual(['k2']);
+  });
+
+  it('never extends an earlier expiry and defaults to an hour of overlap from now', () => {
+    jest.spyOn(Date, 'now').mockReturnValue(now);
+    const ring = new KeyRing([{ id: 'short', secret: 's1', expiresAt: now + 5000 }, { id: 'k1', secret: 's2' }]);
+
+    ring.rotate({ id: 'k2', secret: 's3' });
+
+    expect(ring.get('short')?.expiresAt).toBe(now + 5000);
+    expect(ring.get('k1')?.expiresAt).toBe(now + 3_600_000);
+    expect(ring.get('k2')?.notBefore).toBe(now);
+  });
+
+  it('copies keys and rejects keys without an id or a secret', () => {
+    const key = { id: 'k1', secret: 's1' };
+    const ring = new KeyRing([key]);
+    ring.rotate({ id: 'k2', secret: 's2' }, { at: now });
+
+    expect(key).toEqual({ id: 'k1', secret: 's1' });
+    expect(() => ring.add({ id: '', secret: 's' })).toThrow('Signing keys need an id and a secret');
+    expect(() => ring.add({ id: 'k3', secret: '' })).toThrow('Signing keys need an id and a secret');
+    expect(ring.remove('k1')).toBe(true);
+    expect(ring.keys.map(entry => entry.id)).toEqual(['k2']);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Key Ring - Several signing secrets identified by key id, for rotating credentials without a cutover
+ * The same ring drives signing (client) and verification (server)
+ */
+
+export interface SigningKey {
+  id: string; // Sent as X-Key-Id and signed into the payload
+  secret: string;
+  notBefore?: Date | number; // Not used for signing before this (verification accepts it already)
+  expiresAt?: Date | number; // Neither signs nor verifies from this moment
+}
+
+export interface KeyRotation {
+  at?: Date | number; // When the new key becomes primary (default: now)
+  overlap?: number; // Seconds the outgoing keys keep verifying after `at` (default: 3600)
+}
+
+const DEFAULT_OVERLAP = 3600;
+
+export class KeyRing {
+  private entries: Map<string, SigningKey> = new Map();
+
+  constructor(keys: SigningKey[] = []) {
+    keys.forEach(key => this.add(key));
+  }
+
+  add(key: SigningKey): this {
+    if (!key.id || !key.secret) {
+      throw new Error('Signing keys need an id and a secret');
+    }
+    this.entries.set(key.id, { ...key });
+    return this;
+  }
+
+  remove(id: string): boolean {
+    return this.entries.delete(id);
+  }
+
+  get(id: string): SigningKey | undefined {
+    return this.entries.get(id);
+  }
+
+  get keys(): SigningKey[] {
+    return Array.from(this.entries.values());
+  }
+
+  /**
+   * The key to sign with: the most recently activated key that hasn't expired
+   */
+  primary(now: number = Date.now()): SigningKey | undefined {
+    let primary: SigningKey | undefined;
+    for (const key of this.entries.values()) {
+      if (this.isExpired(key, now) || time(key.notBefore, 0) > now) {
+        continue;
+      }
+      if (!primary || time(key.notBefore, 0) >= time(primary.notBefore, 0)) {
+        primary = key;
+      }
+    }
+    return primary;
+  }
+
+  /**
+   * Keys a signature may be checked against: every key that hasn't expired, including scheduled ones
+   */
+  verificationKeys(now: number = Date.now()): SigningKey[] {
+    return this.keys.filter(key => !this.isExpired(key, now));
+  }
+
+  isExpired(key: SigningKey, now: number = Date.now()): boolean {
+    return time(key.expiresAt, Infinity) <= now;
+  }
+
+  /**
+   * Schedule a rotation: `next` becomes primary at `at`, and every other key expires `overlap` seconds later.
+   * Apply the same call on the signing and the verifying side.
+   */
+  rotate(next: SigningKey, options: KeyRotation = {}): this {
+    const at = time(options.at, Date.now());
+    const retireAt = at + (options.overlap ?? DEFAULT_OVERLAP) * 1000;
+
+    for (const key of this.entries.values()) {
+      if (key.id !== next.id && time(key.expiresAt, Infinity) > retireAt) {
+        key.expiresAt = retireAt;
+      }
+    }
+
+    return this.add({ ...next, notBefore: next.notBefore ?? at });
+  }
+}
+
+/**
+ * Create a key ring from a list of keys
+ */
+export function createKeyRing(keys: SigningKey[] = []): KeyRing {
+  return new KeyRing(keys);
+}
+
+function time(value: Date | number | undefined, fallback: number): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  return value instanceof Date ? value.getTime() : value;
+}
@@ -0,0 +1,128 @@
+/**
+ * Logger - Pluggable structured logging with secret redaction
+ * Silent by default; compatible with console, pino, winston and similar loggers.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const REDACTED = '[REDACTED]';
+
+// Keys whose values are always secret
+const SECRET_KEY = /token|secret|password|passwd|signature|authorization|cookie|api[_-]?key|private[_-]?key|^otp$|^code$|otp[_-]?code|^x-nonce$/i;
+// Personal data
+const PERSONAL_KEY = /phone|mobile|msisdn|e-?mail/i;
+
+const EMAIL = /[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g;
+const PHONE = /\+\d[\d\s-]{6,}\d/g;
+const BEARER = /Bearer\s+[\w.~+/-]+=*/gi;
+const JWT = /eyJ[\w-]+\.[\w-]+\.[\w-]+/g;
+
+/**
+ * Logger that drops everything (default)
+ */
+export const noopLogger: Logger = {
+  debug: () => undefined,
+  info: () => undefined,
+  warn: () => undefined,
+  error: () => undefined
+};
+
+/**
+ * Console logger, used for `enableLogging: true`
+ */
+export function createConsoleLogger(level: LogLevel = 'debug', prefix = '[StorefrontSDK]'): Logger {
+  const write = (target: LogLevel) => (message: string, fields?: LogFields) => {
+    if (LEVELS[target] < LEVELS[level]) {
+      return;
+    }
+    console[target](`${prefix} ${message}`, ...(fields ? [fields] : []));
+  };
+
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error')
+  };
+}
+
+/**
+ * Wrap a logger so every field passes through `redact()` and entries below `level` are dropped
+ */
+export function createRedactingLogger(logger: Logger, level: LogLevel = 'debug'): Logger {
+  const write = (target: LogLevel) => (message: string, fields?: LogFields) => {
+    if (LEVELS[target] < LEVELS[level]) {
+      return;
+    }
+
+    try {
+      logger[target](redactString(message), fields ? (redact(fields) as LogFields) : undefined);
+    } catch {
+      // A failing logger must never break a request
+    }
+  };
+
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error')
+  };
+}
+
+/**
+ * Deep-copy a value with tokens, OTP codes, signatures, phone numbers and emails masked
+ */
+export function redact(value: unknown, seen: WeakSet<object> = new WeakSet()): unknown {
+  if (typeof value === 'string') {
+    return redactString(value);
+  }
+
+  if (!value || typeof value !== 'object') {
+    return value;
+  }
+
+  if (seen.has(value)) {
+    return '[Circular]';
+  }
+  seen.add(value);
+
+  if (value instanceof Error) {
+    return { name: value.name, message: redactString(value.message) };
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => redact(item, seen));
+  }
+
+  const result: Record<string, unknown> = {};
+
+  for (const [key, field] of Object.entries(value)) {
+    if (field !== null && field !== undefined && field !== '' && (SECRET_KEY.test(key) || PERSONAL_KEY.test(key))) {
+      result[key] = REDACTED;
+    } else {
+      result[key] = redact(field, seen);
+    }
+  }
+
+  return result;
+}
+
+function redactString(value: string): string {
+  return value
+    .replace(BEARER, `Bearer ${REDACTED}`)
+    .replace(JWT, REDACTED)
+    .replace(EMAIL, REDACTED)
+    .replace(PHONE, REDACTED);
+}
@@ -0,0 +1,179 @@
+/**
+ * Model Schemas - Runtime counterparts of the SDK model interfaces
+ * Keep in sync with the interfaces in secure-storefront-sdk.ts
+ */
+
+import { schema, type Schema } from './schema';
+import type {
+  Product,
+  Category,
+  Cart,
+  CartItem,
+  Store,
+  Customer,
+  Order,
+  OrderItem,
+  Review,
+  Page,
+  Course,
+  CourseModule,
+  CourseProgress
+} from '../secure-storefront-sdk';
+
+const { string, number, boolean, unknown, optional, nullable, array, record, object } = schema;
+
+const category: Schema<Category> = object('Category', {
+  id: number(),
+  name: string(),
+  slug: string(),
+  description: optional(string()),
+  image: optional(string())
+});
+
+const product: Schema<Product> = object('Product', {
+  id: number(),
+  name: string(),
+  slug: string(),
+  description: optional(string()),
+  price: number(),
+  image: optional(object('ProductImage', {
+    url: string(),
+    alt: optional(string())
+  })),
+  category: optional(category),
+  is_featured: optional(boolean()),
+  stock: optional(number())
+});
+
+const cartItem: Schema<CartItem> = object('CartItem', {
+  id: number(),
+  product_id: number(),
+  product: product,
+  quantity: number(),
+  price: number(),
+  total: number()
+});
+
+const cart: Schema<Cart> = object('Cart', {
+  items: array(cartItem),
+  count: number(),
+  subtotal: number(),
+  total: number(),
+  currency: string()
+});
+
+const store: Schema<Store> = object('Store', {
+  id: number(),
+  name: string(),
+  description: optional(string()),
+  logo: optional(string()),
+  currency: string(),
+  settings: optional(record(unknown()))
+});
+
+const customer: Schema<Customer> = object('Customer', {
+  id: number(),
+  firstName: string(),
+  lastName: string(),
+  email: string(),
+  phone: optional(string())
+});
+
+const orderItem: Schema<OrderItem> = object('OrderItem', {
+  id: number(),
+  product: product,
+  quantity: number(),
+  price: number()
+});
+
+const order: Schema<Order> = object('Order', {
+  id: number(),
+  status: string(),
+  items: array(orderItem),
+  total: number(),
+  created_at: string()
+});
+
+const review: Schema<Review> = object('Review', {
+  id: number(),
+  rating: number(),
+  comment: string(),
+  reviewer: nullable(object('Reviewer', {
+    id: number(),
+    name: string(),
+    email: optional(string())
+  })),
+  product: optional(object('ReviewProduct', {
+    id: number(),
+    name: string(),
+    slug: string()
+  })),
+  created_at: string()
+});
+
+const page: Schema<Page> = object('Page', {
+  id: number(),
+  title: string(),
+  url: string(),
+  content: string(),
+  meta_title: optional(string()),
+  meta_description: optional(string()),
+  is_active: boolean()
+});
+
+const courseModule: Schema<CourseModule> = object('CourseModule', {
+  id: number(),
+  title: string(),
+  content: string(),
+  order: number(),
+  is_completed: optional(boolean())
+});
+
+const courseProgress: Schema<CourseProgress> = object('CourseProgress', {
+  course_id: number(),
+  completed_modules: number(),
+  total_modules: number(),
+  progress_percentage: number()
+});
+
+const course: Schema<Course> = object('Course', {
+  id: number(),
+  title: string(),
+  description: string(),
+  modules: array(courseModule),
+  progress: optional(courseProgress)
+});
+
+const authResult: Schema<{ token: string; customer: Customer }> = object('AuthResult', {
+  token: string(),
+  customer: customer
+});
+
+const wishlist: Schema<{ items: Product[]; count: number }> = object('Wishlist', {
+  items: array(product),
+  count: number()
+});
+
+export const modelSchemas = {
+  product,
+  productList: array(product),
+  category,
+  categoryList: array(category),
+  cart,
+  cartItem,
+  store,
+  customer,
+  authResult,
+  order,
+  orderList: array(order),
+  orderItem,
+  review,
+  reviewList: array(review),
+  page,
+  pageList: array(page),
+  course,
+  courseList: array(course),
+  courseModule,
+  courseProgress,
+  wishlist
+};
@@ -0,0 +1,95 @@
+import { hasFiles, toFormData, spoofMethod, multipartManifest } from './multipart';
+import { UniversalHttpClient } from './http-client';
+import { SecurityManager } from './security';
+import { createRequestVerifier } from '../server/verify';
+
+function entries(form: FormData): Array<[string, FormDataEntryValue]> {
+  const result: Array<[string, FormDataEntryValue]> = [];
+  form.forEach((value, name) => result.push([name, value]));
+  return result;
+}
+
+describe('hasFiles', () => {
+  it('finds a Blob anywhere in the payload', () => {
+    expect(hasFiles({ fields: { photos: [new Blob(['x'])] } })).toBe(true);
+    expect(hasFiles({ qty: 1, at: new Date(), tags: ['a'], note: null })).toBe(false);
+  });
+});
+
+describe('toFormData', () => {
+  it('uses bracket notation and skips null and undefined', () => {
+    const photo = new File(['img'], 'photo.png', { type: 'image/png' });
+    const form = toFormData({
+      product_id: 7,
+      gift: true,
+      wrapped: false,
+      note: null,
+      removed: undefined,
+      delivered_at: new Date('2026-10-19T12:00:00Z'),
+      fields: { engraving: 'Sara', photos: [photo] }
+    });
+
+    expect(entries(form).map(([name, value]) => [name, typeof value === 'string' ? value : (value as File).name])).toEqual([
+      ['product_id', '7'],
+      ['gift', '1'],
+      ['wrapped', '0'],
+      ['delivered_at', '2026-10-19T12:00:00.000Z'],
+      ['fields[engraving]', 'Sara'],
+      ['fields[photos][0]', 'photo.png']
+    ]);
+  });
+});
+
+describe('spoofMethod', () => {
+  it('sends PUT, PATCH and DELETE as POST with _method, on a copy', () => {
+    const form = toFormData({ name: 'Sara' });
+
+    const spoofed = spoofMethod('PATCH', form);
+
+    expect(spoofed.method).toBe('POST');
+    expect(entries(spoofed.form)).toEqual([['name', 'Sara'], ['_method', 'PATCH']]);
+    expect(entries(form)).toEqual([['name', 'Sara']]);
+    expect(spoofMethod('POST', form)).toEqual({ method: 'POST', form });
+  });
+});
+
+describe('multipartManifest', () => {
+  it('lists entries sorted by name, files by name, type, size and hash', async () => {
+    const form = new FormData();
+    form.append('photos[]', new File(['hello'], 'my photo.png', { type: 'image/png' }));
+    form.append('note', 'a&b=c');
+    form.append('photos[]', new Blob(['hello']));
+    form.append('gift', '1');
+
+    const hash = '2cf24dba5fb0a30e26e83b2ac5b9e29e1b161e5c1fa7425e73043362938b9824';
+    expect(await multipartManifest(form)).toBe([
+      'gift=1',
+      'note=a%26b%3Dc',
+      `photos%5B%5D=@my%20photo.png;image%2Fpng;5;${hash}`,
+      `photos%5B%5D=@blob;application%2Foctet-stream;5;${hash}`
+    ].join('\n'));
+  });
+});
+
+describe('UniversalHttpClient multipart uploads', () => {
+  it.each(['v1', 'v2'])('sends files as multipart signed through the manifest (%s)', async (signatureVersion) => {
+    const verifier = createRequestVerifier({ keys: { pk_test: 'sk_test' } });
+    const received: Array<{ method: string; contentType?: string; valid: boolean }> = [];
+    const http = new UniversalHttpClient({
+      baseUrl: 'http://storefront.test/api',
+      transport: async (url, init) => {
+        // Serialize the FormData the way fetch would, boundary included
+        const encoded = new Request(url, { method: init.method, body: init.body });
+        const headers = new Headers(init.headers);
+        headers.set('Content-Type', encoded.headers.get('Content-Type')!);
+        const result = await verifier.verify({ method: init.method!, url, headers, body: new Uint8Array(await encoded.arrayBuffer()) });
+        received.push({ method: init.method!, contentType: new Headers(init.headers).get('Content-Type') ?? undefined, valid: result.valid });
+        return new Response(JSON.stringify({ success: true, data: {} }), { headers: { 'Content-Type': 'application/json' } });
+      }
+    }, new SecurityManager({ publicKey: 'pk_test', secretKey: 'sk_test', signatureVersion, timestampTolerance: 300 }));
+
+    await http.put('/customer/profile', { name: 'Sara', avatar: new File(['img'], 'avatar.png', { type: 'image/png' }) });
+
+    expect(received).toEqual([{ method: 'POST', contentType: undefined, valid: true }]);
+  });
+});
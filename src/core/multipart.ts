@@ -0,0 +1,121 @@
+/**
+ * Multipart - FormData uploads and their signing rule
+ *
+ * A multipart body can't be signed byte-for-byte (fetch picks the boundary), so the
+ * signature covers a canonical manifest instead, used in place of the JSON body string:
+ *
+ *   - one line per entry, sorted by field name (repeated names keep their order)
+ *   - text entry: `<name>=<value>`
+ *   - file entry: `<name>=@<filename>;<content type>;<size>;<sha256 of the content, hex>`
+ *   - name, value, filename and content type are percent-encoded (encodeURIComponent)
+ *   - lines are joined with '\n'
+ */
+
+import { sha256Hex } from './digest';
+
+/**
+ * Check for a FormData body
+ */
+export function isFormData(value: unknown): value is FormData {
+  return typeof FormData !== 'undefined' && value instanceof FormData;
+}
+
+/**
+ * Check whether a payload contains a Blob/File anywhere
+ */
+export function hasFiles(value: unknown): boolean {
+  if (isBlob(value)) {
+    return true;
+  }
+  if (Array.isArray(value)) {
+    return value.some(hasFiles);
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.values(value).some(hasFiles);
+  }
+  return false;
+}
+
+/**
+ * Convert a payload to FormData using Laravel's bracket notation, e.g. `fields[engraving]`, `photos[0]`.
+ * Booleans become '1' / '0'; null and undefined are skipped.
+ */
+export function toFormData(data: Record<string, any>, form: FormData = new FormData(), prefix?: string): FormData {
+  for (const [key, value] of Object.entries(data)) {
+    const name = prefix ? `${prefix}[${key}]` : key;
+
+    if (value === null || value === undefined) {
+      continue;
+    }
+
+    if (isBlob(value)) {
+      form.append(name, value, (value as File).name || 'blob');
+    } else if (value instanceof Date) {
+      form.append(name, value.toISOString());
+    } else if (typeof value === 'boolean') {
+      form.append(name, value ? '1' : '0');
+    } else if (typeof value === 'object') {
+      toFormData(value, form, name);
+    } else {
+      form.append(name, String(value));
+    }
+  }
+
+  return form;
+}
+
+/**
+ * PHP only parses multipart bodies on POST: send PUT/PATCH/DELETE as POST with a `_method` field.
+ * Returns a copy, the caller's FormData is left untouched.
+ */
+export function spoofMethod<M extends string>(method: M, form: FormData): { method: M | 'POST'; form: FormData } {
+  if (method !== 'PUT' && method !== 'PATCH' && method !== 'DELETE') {
+    return { method, form };
+  }
+
+  const spoofed = new FormData();
+  form.forEach((value, name) => spoofed.append(name, value));
+  spoofed.append('_method', method);
+
+  return { method: 'POST', form: spoofed };
+}
+
+/**
+ * Canonical manifest of a FormData body, signed in place of the body string
+ */
+export async function multipartManifest(form: FormData): Promise<string> {
+  const entries: Array<{ name: string; line: string }> = [];
+
+  for (const [name, value] of collect(form)) {
+    if (typeof value === 'string') {
+      entries.push({ name, line: `${encodeURIComponent(name)}=${encodeURIComponent(value)}` });
+      continue;
+    }
+
+    const bytes = new Uint8Array(await value.arrayBuffer());
+    const file = [
+      encodeURIComponent(value.name || 'blob'),
+      encodeURIComponent(value.type || 'application/octet-stream'),
+      value.size,
+      await sha256Hex(bytes)
+    ].join(';');
+
+    entries.push({ name, line: `${encodeURIComponent(name)}=@${file}` });
+  }
+
+  // Array.prototype.sort is stable, so repeated names keep their order
+  return entries
+    .sort((a, b) => (a.name < b.name ? -1 : a.name > b.name ? 1 : 0))
+    .map(entry => entry.line)
+    .join('\n');
+}
+
+function collect(form: FormData): Array<[string, string | File]> {
+  const entries: Array<[string, string | File]> = [];
+  form.forEach((value, name) => entries.push([name, value]));
+  return entries;
+}
+
+function isBlob(value: unknown): value is Blob {
+  return typeof Blob !== 'undefined' && value instanceof Blob;
+}
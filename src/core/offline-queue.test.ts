@@ -0,0 +1,103 @@
+import { OfflineQueue, type QueuedMutation } from './offline-queue';
+import { CircuitOpenError, NetworkError, OfflineQueuedError, RateLimitError, ValidationError, createHttpError } from './errors';
+import type { HttpResponse } from './http-client';
+import { SecureStorefrontSDK } from '../secure-storefront-sdk';
+import { createFakeStorefront } from '../testing/fake-server';
+
+function mutation(idempotencyKey: string): QueuedMutation {
+  return { scope: 'cart', method: 'POST', url: '/cart/add', data: { product_id: 1 }, idempotencyKey, queuedAt: Date.now() };
+}
+
+function response(data: unknown): HttpResponse {
+  return { data, status: 200, statusText: 'OK', headers: {} };
+}
+
+describe('OfflineQueue replay', () => {
+  it.each([
+    ['network error', new NetworkError('offline')],
+    ['rate limit', new RateLimitError('slow down', { status: 429, retryAfter: 1 })],
+    ['open circuit', new CircuitOpenError('circuit open')],
+    ['server error', createHttpError({ status: 503, statusText: 'Service Unavailable', data: { success: false, message: 'unavailable' } })]
+  ])('keeps the mutation and everything after it on a %s', async (_name, error) => {
+    const send = jest.fn().mockRejectedValue(error);
+    const queue = new OfflineQueue({ autoReplay: false }, { send });
+    const conflict = jest.fn();
+    queue.on('conflict', conflict);
+
+    await queue.enqueue(mutation('a'), new NetworkError('offline'));
+    await queue.enqueue(mutation('b'), new NetworkError('offline'));
+    await queue.replay();
+
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(conflict).not.toHaveBeenCalled();
+    expect((await queue.pending()).map(m => m.idempotencyKey)).toEqual(['a', 'b']);
+  });
+
+  it('drops mutations the server rejects and reconciles with the replayed ones', async () => {
+    const send = jest.fn()
+      .mockRejectedValueOnce(new ValidationError('Out of stock', { status: 422 }))
+      .mockResolvedValueOnce(response({ count: 1 }));
+    const queue = new OfflineQueue<number>({ autoReplay: false }, {
+      send,
+      reconcile: replayed => replayed.length
+    });
+    const conflict = jest.fn();
+    queue.on('conflict', conflict);
+
+    await queue.enqueue(mutation('a'), new NetworkError('offline'));
+    await queue.enqueue(mutation('b'), new NetworkError('offline'));
+
+    expect(await queue.replay()).toBe(1);
+    expect(conflict).toHaveBeenCalledWith(expect.objectContaining({ mutation: expect.objectContaining({ idempotencyKey: 'a' }) }));
+    expect(await queue.pending()).toEqual([]);
+  });
+
+  it('queues SDK cart mutations while offline and replays them against the API', async () => {
+    const fake = createFakeStorefront({ requireSignature: true });
+    let online = false;
+    const sdk = new SecureStorefrontSDK({
+      apiUrl: fake.baseUrl,
+      publicKey: 'pk_test',
+      secretKey: 'sk_test',
+      maxRetries: 0,
+      offline: { autoReplay: false },
+      transport: (url, init) => (online ? fake.fetch(url, init) : Promise.reject(new TypeError('fetch failed')))
+    });
+
+    await expect(sdk.cart.addItem(1, 2)).rejects.toBeInstanceOf(OfflineQueuedError);
+    await expect(sdk.cart.addItem(5, 1)).rejects.toBeInstanceOf(OfflineQueuedError);
+    expect(await sdk.getOfflineQueue()!.pending()).toHaveLength(2);
+
+    online = true;
+    const cart = await sdk.getOfflineQueue()!.replay();
+
+    expect(cart).toMatchObject({ count: 3 });
+    expect(await sdk.getOfflineQueue()!.pending()).toEqual([]);
+    expect(fake.requests.map(request => [request.path, request.signed])).toEqual([
+      ['/cart/add', true],
+      ['/cart/add', true]
+    ]);
+  });
+
+  it('stops listening for the online event once disposed', async () => {
+    const listeners = new Set<() => void>();
+    const win = {
+      addEventListener: (_event: string, listener: () => void) => listeners.add(listener),
+      removeEventListener: (_event: string, listener: () => void) => listeners.delete(listener)
+    };
+    Object.assign(globalThis, { window: win });
+
+    try {
+      const send = jest.fn().mockResolvedValue(response({}));
+      const queue = new OfflineQueue({}, { send });
+      await queue.enqueue(mutation('a'), new NetworkError('offline'));
+
+      expect(listeners.size).toBe(1);
+      queue.dispose();
+      expect(listeners.size).toBe(0);
+      expect(await queue.pending()).toHaveLength(1);
+    } finally {
+      delete (globalThis as { window?: unknown }).window;
+    }
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * Offline Queue - Persists mutations that failed for lack of connectivity
+ * and replays them in order once the connection is back
+ */
+
+import { Emitter } from './emitter';
+import { CircuitOpenError, NetworkError, RateLimitError, StorefrontError } from './errors';
+import { resolveStorage, type StorageAdapter } from './storage';
+import type { HttpMethod, HttpResponse } from './http-client';
+
+export interface OfflineQueueConfig {
+  storage?: StorageAdapter | 'memory' | 'localStorage'; // Use 'localStorage' to survive reloads
+  maxSize?: number;      // Pending mutations kept before new failures are thrown (default: 100)
+  autoReplay?: boolean;  // Replay on the browser 'online' event (default: true)
+}
+
+export interface QueuedMutation {
+  scope: string;          // Resource the mutation belongs to ('cart', 'wishlist')
+  method: HttpMethod;
+  url: string;
+  data?: any;
+  idempotencyKey: string; // Reused on replay so the server applies it only once
+  queuedAt: number;
+}
+
+export interface ReplayedMutation {
+  mutation: QueuedMutation;
+  response: HttpResponse;
+}
+
+export interface OfflineQueueEvents<R = unknown> {
+  queued: { mutation: QueuedMutation; error: NetworkError | CircuitOpenError };
+  replayed: ReplayedMutation;
+  conflict: { mutation: QueuedMutation; error: StorefrontError }; // Rejected by the server and dropped
+  reconciled: R;
+}
+
+export interface OfflineQueueHandlers<R> {
+  send: (mutation: QueuedMutation) => Promise<HttpResponse>;
+  reconcile?: (replayed: ReplayedMutation[]) => R | undefined | Promise<R | undefined>;
+}
+
+const STORAGE_KEY = 'offline:queue';
+
+export class OfflineQueue<R = unknown> extends Emitter<OfflineQueueEvents<R>> {
+  private storage: StorageAdapter;
+  private maxSize: number;
+  private handlers: OfflineQueueHandlers<R>;
+  private replaying?: Promise<R | undefined>;
+  private writes: Promise<void> = Promise.resolve();
+  private onOnline?: () => void;
+
+  constructor(config: OfflineQueueConfig, handlers: OfflineQueueHandlers<R>) {
+    super();
+    this.storage = resolveStorage(config.storage);
+    this.maxSize = config.maxSize ?? 100;
+    this.handlers = handlers;
+
+    if (config.autoReplay !== false && typeof window !== 'undefined' && typeof window.addEventListener === 'function') {
+      this.onOnline = () => {
+        this.replay().catch(() => undefined);
+      };
+      window.addEventListener('online', this.onOnline);
+    }
+  }
+
+  /**
+   * Stop replaying on the 'online' event. Pending mutations stay persisted.
+   */
+  dispose(): void {
+    if (this.onOnline) {
+      window.removeEventListener('online', this.onOnline);
+      this.onOnline = undefined;
+    }
+  }
+
+  /**
+   * Pending mutations, oldest first
+   */
+  async pending(): Promise<QueuedMutation[]> {
+    return (await this.storage.get(STORAGE_KEY)) || [];
+  }
+
+  /**
+   * Persist a mutation. Returns false when the queue is full.
+   */
+  async enqueue(mutation: QueuedMutation, error: NetworkError | CircuitOpenError): Promise<boolean> {
+    let accepted = false;
+
+    await this.update(queue => {
+      if (queue.length >= this.maxSize) {
+        return queue;
+      }
+      accepted = true;
+      return [...queue, mutation];
+    });
+
+    if (accepted) {
+      this.emit('queued', { mutation, error });
+    }
+
+    return accepted;
+  }
+
+  /**
+   * Replay pending mutations in order. Stops at the first transient failure (network, 5xx, 429, open circuit),
+   * drops mutations the server rejects, then reconciles with the last responses.
+   */
+  replay(): Promise<R | undefined> {
+    if (!this.replaying) {
+      this.replaying = this.drain().finally(() => {
+        this.replaying = undefined;
+      });
+    }
+
+    return this.replaying;
+  }
+
+  async clear(): Promise<void> {
+    await this.update(() => []);
+  }
+
+  private async drain(): Promise<R | undefined> {
+    const replayed: ReplayedMutation[] = [];
+
+    for (let [mutation] = await this.pending(); mutation; [mutation] = await this.pending()) {
+      try {
+        const response = await this.handlers.send(mutation);
+        await this.remove(mutation);
+        replayed.push({ mutation, response });
+        this.emit('replayed', { mutation, response });
+      } catch (error) {
+        // Still offline, throttled or the server is struggling - keep this and everything after it
+        if (isTransient(error)) {
+          break;
+        }
+
+        await this.remove(mutation);
+        this.emit('conflict', {
+          mutation,
+          error: error instanceof StorefrontError ? error : new StorefrontError(String(error), { cause: error })
+        });
+      }
+    }
+
+    if (replayed.length === 0 || !this.handlers.reconcile) {
+      return undefined;
+    }
+
+    const result = await this.handlers.reconcile(replayed);
+    if (result !== undefined) {
+      this.emit('reconciled', result);
+    }
+
+    return result;
+  }
+
+  private remove(mutation: QueuedMutation): Promise<void> {
+    return this.update(queue => queue.filter(m => m.idempotencyKey !== mutation.idempotencyKey));
+  }
+
+  /**
+   * Serialized read-modify-write, so concurrent enqueues don't overwrite each other
+   */
+  private update(change: (queue: QueuedMutation[]) => QueuedMutation[]): Promise<void> {
+    this.writes = this.writes
+      .catch(() => undefined)
+      .then(async () => {
+        await this.storage.set(STORAGE_KEY, change(await this.pending()));
+      });
+
+    return this.writes;
+  }
+}
+
+function isTransient(error: unknown): boolean {
+  if (error instanceof NetworkError || error instanceof RateLimitError || error instanceof CircuitOpenError) {
+    return true;
+  }
+  const status = error instanceof StorefrontError ? error.status || 0 : 0;
+  return status === 408 || status === 429 || status >= 500;
+}
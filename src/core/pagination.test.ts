@@ -0,0 +1,143 @@
+import { createPageIterator } from './pagination';
+import { normalizePagination, type Paginated } from './envelope';
+import { SecureStorefrontSDK } from '../secure-storefront-sdk';
+import { createFakeStorefront } from '../testing/fake-server';
+
+/**
+ * In-memory paginated list; pages after the first stay pending until released or aborted
+ */
+function list(total: number, perPage: number, options: { holdPrefetches?: boolean } = {}) {
+  const requested: number[] = [];
+  const aborted: number[] = [];
+
+  const fetchPage = (page: number, signal: AbortSignal): Promise<Paginated<number>> => {
+    requested.push(page);
+    const start = (page - 1) * perPage;
+    const data = Array.from({ length: Math.max(0, Math.min(perPage, total - start)) }, (_, i) => start + i + 1);
+    const result = { data, pagination: normalizePagination({ current_page: page, per_page: perPage, total }, data.length) };
+
+    if (!options.holdPrefetches || page === 1) {
+      return Promise.resolve(result);
+    }
+    return new Promise((_resolve, reject) => {
+      signal.addEventListener('abort', () => {
+        aborted.push(page);
+        reject(new Error('aborted'));
+      });
+    });
+  };
+
+  return { fetchPage, requested, aborted };
+}
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+describe('createPageIterator', () => {
+  it('walks every page in order', async () => {
+    const { fetchPage, requested } = list(5, 2);
+
+    expect(await collect(createPageIterator(fetchPage))).toEqual([1, 2, 3, 4, 5]);
+    expect(requested).toEqual([1, 2, 3]);
+  });
+
+  it('starts at startPage and yields whole pages from pages()', async () => {
+    const { fetchPage } = list(6, 2);
+
+    const pages = await collect(createPageIterator(fetchPage, { startPage: 2 }).pages());
+
+    expect(pages.map(page => page.data)).toEqual([[3, 4], [5, 6]]);
+  });
+
+  it('fetches on demand with concurrency 0', async () => {
+    const { fetchPage, requested } = list(10, 1);
+
+    for await (const item of createPageIterator(fetchPage, { concurrency: 0 })) {
+      if (item === 2) {
+        break;
+      }
+    }
+
+    expect(requested).toEqual([1, 2]);
+  });
+
+  it('never prefetches past the last page', async () => {
+    const { fetchPage, requested } = list(4, 2);
+
+    expect(await collect(createPageIterator(fetchPage, { concurrency: 5 }))).toEqual([1, 2, 3, 4]);
+    expect(requested).toEqual([1, 2]);
+  });
+
+  it('stops at an empty page even when the API claims more', async () => {
+    const fetchPage = jest.fn(async (page: number): Promise<Paginated<number>> => ({
+      data: page === 1 ? [1] : [],
+      pagination: normalizePagination({ current_page: page, per_page: 1, total: 10, has_more_pages: true }, page === 1 ? 1 : 0)
+    }));
+
+    expect(await collect(createPageIterator(fetchPage, { concurrency: 0 }))).toEqual([1]);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('rejects with the error of a failed page after yielding the earlier ones', async () => {
+    const { fetchPage } = list(6, 2);
+    const items: number[] = [];
+
+    const walk = (async () => {
+      for await (const item of createPageIterator((page, signal) => page === 2 ? Promise.reject(new Error('page 2 failed')) : fetchPage(page, signal))) {
+        items.push(item);
+      }
+    })();
+
+    await expect(walk).rejects.toThrow('page 2 failed');
+    expect(items).toEqual([1, 2]);
+  });
+
+  it('aborts prefetched pages when the loop breaks early', async () => {
+    const { fetchPage, requested, aborted } = list(10, 1, { holdPrefetches: true });
+
+    for await (const item of createPageIterator(fetchPage, { concurrency: 3 })) {
+      expect(item).toBe(1);
+      break;
+    }
+
+    expect(requested).toEqual([1, 2, 3, 4]);
+    expect(aborted).toEqual([2, 3, 4]);
+  });
+
+  it('aborts pages in flight when the caller signal aborts', async () => {
+    const { fetchPage, aborted } = list(10, 1, { holdPrefetches: true });
+    const controller = new AbortController();
+    const pages = createPageIterator(fetchPage, { concurrency: 2, signal: controller.signal }).pages();
+
+    const iterator = pages[Symbol.asyncIterator]();
+    await iterator.next();
+    const second = iterator.next();
+    controller.abort();
+
+    await expect(second).rejects.toThrow('aborted');
+    expect(aborted).toEqual([2, 3]);
+  });
+});
+
+describe('SecureStorefrontSDK iterators', () => {
+  it('walks every page of a list with the same parameters', async () => {
+    const fake = createFakeStorefront();
+    const sdk = new SecureStorefrontSDK({ apiUrl: fake.baseUrl, publicKey: 'pk_test', secretKey: 'sk_test', transport: fake.fetch });
+    const all = await sdk.products.getAll({ per_page: 100 });
+
+    const ids: number[] = [];
+    for await (const product of sdk.products.iterate({ per_page: 3 }, { concurrency: 0 })) {
+      ids.push(product.id);
+    }
+
+    expect(ids).toEqual(all.data.map(product => product.id));
+    expect(fake.requests.slice(1).map(request => request.query)).toEqual(
+      Array.from({ length: Math.ceil(ids.length / 3) }, (_, index) => ({ per_page: '3', page: String(index + 1) }))
+    );
+  });
+});
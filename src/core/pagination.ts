@@ -0,0 +1,92 @@
+/**
+ * Pagination - Async iterators over paginated endpoints
+ * Walks `page` until `has_more_pages` is false, optionally prefetching ahead
+ */
+
+import type { Paginated } from './envelope';
+
+export interface PageIteratorOptions {
+  concurrency?: number; // Pages requested ahead of the one being consumed (default: 1, 0 = on demand)
+  startPage?: number; // First page to request (default: 1)
+  signal?: AbortSignal; // Aborts the page requests in flight, prefetches included
+}
+
+/**
+ * Iterates items; `pages()` iterates whole pages instead
+ */
+export interface PageIterator<T> extends AsyncIterable<T> {
+  pages(): AsyncIterable<Paginated<T>>;
+}
+
+/**
+ * Build an iterator from a function that loads one page.
+ * Prefetched pages past the end, or left over after an early `break`, are aborted through the signal
+ * passed to `fetchPage` and discarded.
+ */
+export function createPageIterator<T>(
+  fetchPage: (page: number, signal: AbortSignal) => Promise<Paginated<T>>,
+  options: PageIteratorOptions = {}
+): PageIterator<T> {
+  const concurrency = Math.max(0, Math.floor(options.concurrency ?? 1));
+  const startPage = options.startPage ?? 1;
+
+  async function* pages(): AsyncGenerator<Paginated<T>> {
+    const ahead: Array<Promise<Paginated<T>>> = [];
+    let next = startPage;
+    let lastPage = Infinity;
+
+    // One controller per walk, following the caller's signal
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    if (options.signal?.aborted) {
+      abort();
+    }
+    options.signal?.addEventListener('abort', abort);
+
+    const request = () => {
+      const pending = fetchPage(next++, controller.signal);
+      // Rejections surface when the page is awaited; discarded prefetches must not go unhandled
+      pending.catch(() => undefined);
+      ahead.push(pending);
+    };
+
+    try {
+      request();
+
+      while (ahead.length > 0) {
+        const page = await ahead.shift()!;
+        const hasMore = page.pagination.has_more_pages && page.data.length > 0;
+
+        if (!hasMore) {
+          yield page;
+          return;
+        }
+
+        lastPage = page.pagination.last_page;
+        while (ahead.length < concurrency && next <= lastPage) {
+          request();
+        }
+
+        yield page;
+
+        if (ahead.length === 0) {
+          request();
+        }
+      }
+    } finally {
+      // Runs on completion, on an error and on `return()` after an early `break`
+      options.signal?.removeEventListener('abort', abort);
+      abort();
+    }
+  }
+
+  return {
+    pages,
+
+    async *[Symbol.asyncIterator]() {
+      for await (const page of pages()) {
+        yield* page.data;
+      }
+    }
+  };
+}
@@ -0,0 +1,99 @@
+import { RateLimiter } from './rate-limiter';
+import { AbortError, RateLimitError } from './errors';
+
+/**
+ * Settle state of a promise without awaiting it
+ */
+function track(promise: Promise<void>) {
+  const state = { settled: false, error: undefined as unknown };
+  promise.then(() => { state.settled = true; }, (error) => { state.settled = true; state.error = error; });
+  return state;
+}
+
+async function flush(): Promise<void> {
+  await Promise.resolve();
+  await Promise.resolve();
+}
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(new Date('2026-10-19T12:00:00Z'));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('grants the bucket at once, then queues until tokens refill', async () => {
+    const limiter = new RateLimiter({ capacity: 2, refillPerSecond: 1 });
+
+    await limiter.acquire();
+    await limiter.acquire();
+    const third = track(limiter.acquire());
+    await flush();
+
+    expect(third.settled).toBe(false);
+    expect(limiter.getStatus()).toMatchObject({ remaining: 0, queued: 1 });
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(third).toEqual({ settled: true, error: undefined });
+  });
+
+  it('fails fast once maxQueue requests wait', async () => {
+    const limiter = new RateLimiter({ capacity: 1, maxQueue: 1 });
+    await limiter.acquire();
+    track(limiter.acquire());
+
+    await expect(limiter.acquire()).rejects.toBeInstanceOf(RateLimitError);
+  });
+
+  it('drops a queued request when its signal aborts', async () => {
+    const limiter = new RateLimiter({ capacity: 1 });
+    const controller = new AbortController();
+    await limiter.acquire();
+
+    const waiting = limiter.acquire(controller.signal);
+    controller.abort();
+
+    await expect(waiting).rejects.toBeInstanceOf(AbortError);
+    expect(limiter.getStatus().queued).toBe(0);
+    await expect(limiter.acquire(controller.signal)).rejects.toBeInstanceOf(AbortError);
+  });
+
+  it('follows X-RateLimit headers and holds requests until the window resets', async () => {
+    const limiter = new RateLimiter({ capacity: 60 });
+
+    limiter.update({ 'X-RateLimit-Limit': '30', 'X-RateLimit-Remaining': '0', 'X-RateLimit-Reset': '10' });
+
+    expect(limiter.getStatus()).toEqual({ limit: 30, remaining: 0, resetAt: Date.now() + 10_000, queued: 0 });
+    const next = track(limiter.acquire());
+    await jest.advanceTimersByTimeAsync(9_999);
+    expect(next.settled).toBe(false);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(next.settled).toBe(true);
+    expect(limiter.getStatus()).toMatchObject({ remaining: 29, resetAt: null });
+  });
+
+  it('reads X-RateLimit-Reset as epoch seconds', () => {
+    const limiter = new RateLimiter();
+    const reset = Math.floor(Date.now() / 1000) + 30;
+
+    limiter.update({ 'x-ratelimit-reset': String(reset), 'x-ratelimit-remaining': '12' });
+
+    expect(limiter.getStatus()).toMatchObject({ remaining: 12, resetAt: reset * 1000 });
+  });
+
+  it('pauses every request after a Retry-After', async () => {
+    const limiter = new RateLimiter();
+    limiter.pause(2000);
+
+    const next = track(limiter.acquire());
+    await jest.advanceTimersByTimeAsync(1999);
+    expect(next.settled).toBe(false);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(next.settled).toBe(true);
+  });
+});
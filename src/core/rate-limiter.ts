@@ -0,0 +1,183 @@
+/**
+ * Client-side Rate Limiter - Token bucket fed by X-RateLimit-* response headers
+ * Queues requests once the budget is exhausted instead of letting them fail with 429
+ */
+
+import { AbortError, RateLimitError } from './errors';
+
+export interface RateLimiterConfig {
+  capacity?: number;        // Bucket size (default: 60, matching Laravel's throttle:60,1)
+  refillPerSecond?: number; // Tokens added per second (default: capacity / 60)
+  maxQueue?: number;        // Maximum queued requests before failing fast (default: unlimited)
+}
+
+export interface RateLimitStatus {
+  limit: number;
+  remaining: number;
+  resetAt: number | null; // Epoch ms when the server window resets, if known
+  queued: number;
+}
+
+interface Waiter {
+  resolve: () => void;
+  reject: (error: Error) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+export class RateLimiter {
+  private capacity: number;
+  private refillPerSecond: number;
+  private maxQueue: number;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private blockedUntil = 0;
+  private resetAt: number | null = null;
+  private queue: Waiter[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+
+  constructor(config: RateLimiterConfig = {}) {
+    this.capacity = config.capacity || 60;
+    this.refillPerSecond = config.refillPerSecond || this.capacity / 60;
+    this.maxQueue = config.maxQueue ?? Infinity;
+    this.tokens = this.capacity;
+  }
+
+  /**
+   * Wait for a token. Resolves immediately while budget is left.
+   */
+  acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(new AbortError());
+    }
+
+    if (this.queue.length >= this.maxQueue) {
+      return Promise.reject(new RateLimitError('Rate limit queue is full'));
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { resolve, reject, signal };
+
+      if (signal) {
+        waiter.onAbort = () => {
+          this.queue = this.queue.filter(w => w !== waiter);
+          reject(new AbortError());
+        };
+        signal.addEventListener('abort', waiter.onAbort, { once: true });
+      }
+
+      this.queue.push(waiter);
+      this.drain();
+    });
+  }
+
+  /**
+   * Sync the bucket with the server's X-RateLimit-* headers
+   */
+  update(headers: Record<string, string>): void {
+    const limit = this.readHeader(headers, 'x-ratelimit-limit');
+    const remaining = this.readHeader(headers, 'x-ratelimit-remaining');
+    const reset = this.readHeader(headers, 'x-ratelimit-reset');
+
+    this.refill();
+
+    if (limit !== undefined && limit > 0) {
+      this.capacity = limit;
+    }
+
+    if (reset !== undefined) {
+      // Epoch seconds (Laravel) or seconds until reset
+      this.resetAt = reset > 1e9 ? reset * 1000 : Date.now() + reset * 1000;
+    }
+
+    if (remaining !== undefined) {
+      this.tokens = Math.min(this.tokens, remaining);
+
+      if (remaining <= 0 && this.resetAt && this.resetAt > Date.now()) {
+        this.pause(this.resetAt - Date.now());
+      }
+    }
+  }
+
+  /**
+   * Hold all requests for the given time (e.g. after a 429 with Retry-After)
+   */
+  pause(ms: number): void {
+    this.blockedUntil = Math.max(this.blockedUntil, Date.now() + ms);
+    this.resetAt = Math.max(this.resetAt || 0, this.blockedUntil);
+    this.tokens = 0;
+  }
+
+  /**
+   * Current budget
+   */
+  getStatus(): RateLimitStatus {
+    this.refill();
+
+    return {
+      limit: this.capacity,
+      remaining: Math.floor(this.tokens),
+      resetAt: this.resetAt && this.resetAt > Date.now() ? this.resetAt : null,
+      queued: this.queue.length
+    };
+  }
+
+  private drain(): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.refill();
+
+    while (this.queue.length > 0) {
+      const wait = this.waitTime();
+
+      if (wait > 0) {
+        this.timer = setTimeout(() => {
+          this.timer = undefined;
+          this.drain();
+        }, wait);
+        return;
+      }
+
+      this.tokens -= 1;
+      const waiter = this.queue.shift()!;
+      if (waiter.onAbort) {
+        waiter.signal?.removeEventListener('abort', waiter.onAbort);
+      }
+      waiter.resolve();
+    }
+  }
+
+  private waitTime(): number {
+    const now = Date.now();
+
+    if (this.blockedUntil > now) {
+      return this.blockedUntil - now;
+    }
+    if (this.tokens >= 1) {
+      return 0;
+    }
+
+    return Math.ceil(((1 - this.tokens) / this.refillPerSecond) * 1000);
+  }
+
+  private refill(): void {
+    const now = Date.now();
+
+    // Server window is over, start with a full bucket
+    if (this.blockedUntil && now >= this.blockedUntil) {
+      this.blockedUntil = 0;
+      this.tokens = this.capacity;
+    }
+
+    this.tokens = Math.min(this.capacity, this.tokens + ((now - this.lastRefill) / 1000) * this.refillPerSecond);
+    this.lastRefill = now;
+  }
+
+  private readHeader(headers: Record<string, string>, name: string): number | undefined {
+    const key = Object.keys(headers).find(k => k.toLowerCase() === name);
+    const value = key ? parseInt(headers[key], 10) : NaN;
+    return isNaN(value) ? undefined : value;
+  }
+}
@@ -0,0 +1,103 @@
+import { schema, formatIssues } from './schema';
+import { modelSchemas } from './model-schemas';
+import { SchemaValidationError } from './errors';
+import { SecureStorefrontSDK } from '../secure-storefront-sdk';
+import { defaultFixtures } from '../testing/fixtures';
+import type { Logger } from './logger';
+
+describe('schema', () => {
+  it('checks primitives, rejecting NaN and Infinity as numbers', () => {
+    expect(schema.string().validate('a')).toEqual([]);
+    expect(schema.number().validate(NaN)).toEqual([{ path: '$', expected: 'number', received: 'NaN' }]);
+    expect(schema.number().validate(Infinity)).toEqual([{ path: '$', expected: 'number', received: 'number' }]);
+    expect(schema.boolean().validate('true')).toEqual([{ path: '$', expected: 'boolean', received: 'string' }]);
+    expect(schema.unknown().validate(undefined)).toEqual([]);
+  });
+
+  it('reports every issue with its JSON path', () => {
+    const item = schema.object('Item', {
+      id: schema.number(),
+      tags: schema.array(schema.string()),
+      meta: schema.record(schema.number())
+    });
+
+    expect(schema.array(item).validate([
+      { id: 1, tags: ['a'], meta: { views: 3 } },
+      { id: '2', tags: ['b', 3], meta: { views: null } },
+      null
+    ])).toEqual([
+      { path: '$[1].id', expected: 'number', received: 'string' },
+      { path: '$[1].tags[1]', expected: 'string', received: 'number' },
+      { path: '$[1].meta.views', expected: 'number', received: 'null' },
+      { path: '$[2]', expected: 'Item', received: 'null' }
+    ]);
+  });
+
+  it('tells missing keys from optional and nullable ones, and allows unknown keys', () => {
+    const shape = schema.object('Shape', {
+      required: schema.string(),
+      optional: schema.optional(schema.string()),
+      nullable: schema.nullable(schema.string())
+    });
+
+    expect(shape.validate({ required: 'a', nullable: null, extra: true })).toEqual([]);
+    expect(shape.validate({ required: 'a', optional: null, nullable: 'b' })).toEqual([]);
+    expect(shape.validate({ optional: 1 })).toEqual([
+      { path: '$.required', expected: 'string', received: 'missing' },
+      { path: '$.optional', expected: 'string', received: 'number' },
+      { path: '$.nullable', expected: 'string | null', received: 'missing' }
+    ]);
+  });
+
+  it('summarizes issues in one line', () => {
+    expect(formatIssues([])).toBe('');
+    expect(formatIssues([
+      { path: '$.price', expected: 'number', received: 'string' },
+      { path: '$.name', expected: 'string', received: 'missing' }
+    ])).toBe('$.price: expected number, received string (and 1 more)');
+  });
+
+  it('accepts the fixture catalog as SDK models', () => {
+    const { products, categories } = defaultFixtures();
+
+    expect(modelSchemas.productList.validate(products)).toEqual([]);
+    expect(modelSchemas.categoryList.validate(categories)).toEqual([]);
+  });
+});
+
+describe('SecureStorefrontSDK response validation', () => {
+  const invalidProduct = { id: 1, name: 'Shirt', slug: 'shirt', price: '99.00' };
+
+  function sdk(validation: 'strict' | 'warn' | 'off', logger?: Logger) {
+    return new SecureStorefrontSDK({
+      apiUrl: 'http://storefront.test/api',
+      publicKey: 'pk_test',
+      secretKey: 'sk_test',
+      validation,
+      logger,
+      transport: async () => new Response(JSON.stringify({ success: true, data: invalidProduct }), {
+        headers: { 'Content-Type': 'application/json' }
+      })
+    });
+  }
+
+  it('throws a SchemaValidationError in strict mode', async () => {
+    const error = await sdk('strict').products.getById(1).catch(caught => caught);
+
+    expect(error).toBeInstanceOf(SchemaValidationError);
+    expect(error.message).toBe('Invalid Product response: $.price: expected number, received string');
+    expect(error.issues).toEqual([{ path: '$.price', expected: 'number', received: 'string' }]);
+  });
+
+  it('logs a warning and returns the data in warn mode', async () => {
+    const warn = jest.fn();
+    const logger: Logger = { debug: jest.fn(), info: jest.fn(), warn, error: jest.fn() };
+
+    await expect(sdk('warn', logger).products.getById(1)).resolves.toEqual(invalidProduct);
+    expect(warn).toHaveBeenCalledWith('Invalid Product response: $.price: expected number, received string', expect.anything());
+  });
+
+  it('skips the checks when off', async () => {
+    await expect(sdk('off').products.getById(1)).resolves.toEqual(invalidProduct);
+  });
+});
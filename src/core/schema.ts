@@ -0,0 +1,157 @@
+/**
+ * Schema - Minimal dependency-free runtime validators
+ * Used to check API responses against the SDK's model interfaces
+ */
+
+export interface SchemaIssue {
+  path: string;     // JSON path of the failing value, e.g. '$.items[0].product.price'
+  expected: string;
+  received: string;
+}
+
+export interface Schema<T = unknown> {
+  readonly type: string;
+  /**
+   * Collect issues for `value`; an empty array means it matches
+   */
+  validate(value: unknown, path?: string): SchemaIssue[];
+  /** @internal Phantom field carrying the validated type */
+  readonly _output?: T;
+}
+
+type Check = (value: unknown, path: string, issues: SchemaIssue[]) => void;
+
+interface InternalSchema<T> extends Schema<T> {
+  check: Check;
+  optional?: boolean;
+}
+
+export type Shape = Record<string, Schema<any>>;
+
+function createSchema<T>(type: string, check: Check, optional = false): Schema<T> {
+  const created: InternalSchema<T> = {
+    type,
+    check,
+    optional,
+    validate(value: unknown, path = '$') {
+      const issues: SchemaIssue[] = [];
+      check(value, path, issues);
+      return issues;
+    }
+  };
+
+  return created;
+}
+
+function run(schema: Schema<any>, value: unknown, path: string, issues: SchemaIssue[]): void {
+  const internal = schema as InternalSchema<unknown>;
+
+  if (internal.check) {
+    internal.check(value, path, issues);
+  } else {
+    issues.push(...schema.validate(value, path));
+  }
+}
+
+function describe(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  if (typeof value === 'number' && isNaN(value)) {
+    return 'NaN';
+  }
+  return typeof value;
+}
+
+function primitive<T>(type: 'string' | 'number' | 'boolean'): Schema<T> {
+  return createSchema<T>(type, (value, path, issues) => {
+    if (typeof value !== type || (type === 'number' && !isFinite(value as number))) {
+      issues.push({ path, expected: type, received: describe(value) });
+    }
+  });
+}
+
+export const schema = {
+  string: (): Schema<string> => primitive('string'),
+
+  number: (): Schema<number> => primitive('number'),
+
+  boolean: (): Schema<boolean> => primitive('boolean'),
+
+  unknown: (): Schema<unknown> => createSchema('unknown', () => undefined),
+
+  /**
+   * Allow `undefined` (missing key) and `null`
+   */
+  optional: <T>(inner: Schema<T>): Schema<T | undefined> =>
+    createSchema(`${inner.type} | undefined`, (value, path, issues) => {
+      if (value !== undefined && value !== null) {
+        run(inner, value, path, issues);
+      }
+    }, true),
+
+  /**
+   * Allow `null` but require the key
+   */
+  nullable: <T>(inner: Schema<T>): Schema<T | null> =>
+    createSchema(`${inner.type} | null`, (value, path, issues) => {
+      if (value !== null) {
+        run(inner, value, path, issues);
+      }
+    }),
+
+  array: <T>(item: Schema<T>): Schema<T[]> =>
+    createSchema(`${item.type}[]`, (value, path, issues) => {
+      if (!Array.isArray(value)) {
+        issues.push({ path, expected: `${item.type}[]`, received: describe(value) });
+        return;
+      }
+      value.forEach((entry, index) => run(item, entry, `${path}[${index}]`, issues));
+    }),
+
+  record: <T>(item: Schema<T>): Schema<Record<string, T>> =>
+    createSchema(`Record<string, ${item.type}>`, (value, path, issues) => {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        issues.push({ path, expected: 'object', received: describe(value) });
+        return;
+      }
+      for (const [key, entry] of Object.entries(value)) {
+        run(item, entry, `${path}.${key}`, issues);
+      }
+    }),
+
+  /**
+   * Object with the given keys. Unknown keys are allowed, so additive API changes stay valid.
+   */
+  object: <T>(type: string, shape: Shape): Schema<T> =>
+    createSchema<T>(type, (value, path, issues) => {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        issues.push({ path, expected: type, received: describe(value) });
+        return;
+      }
+      for (const [key, field] of Object.entries(shape)) {
+        const entry = (value as Record<string, unknown>)[key];
+        if (entry === undefined && !(field as InternalSchema<unknown>).optional) {
+          issues.push({ path: `${path}.${key}`, expected: field.type, received: 'missing' });
+          continue;
+        }
+        run(field, entry, `${path}.${key}`, issues);
+      }
+    })
+};
+
+/**
+ * One-line summary of validation issues
+ */
+export function formatIssues(issues: SchemaIssue[]): string {
+  const [first] = issues;
+  if (!first) {
+    return '';
+  }
+
+  const more = issues.length > 1 ? ` (and ${issues.length - 1} more)` : '';
+  return `${first.path}: expected ${first.expected}, received ${first.received}${more}`;
+}
@@ -0,0 +1,39 @@
+import { SecurityManager } from './security';
+import { KeyRing } from './keyring';
+
+function manager(credentials: { secretKey?: string; keys?: KeyRing } = { secretKey: 'sk_test' }) {
+  return new SecurityManager({ publicKey: 'pk_test', signatureVersion: 'v1', timestampTolerance: 300, ...credentials });
+}
+
+describe('SecurityManager v1 signatures', () => {
+  it('cover the query string', async () => {
+    const security = manager();
+    const headers = await security.getAuthHeaders('GET', '/api/products?page=2');
+    const verify = (path: string) => security.verifySignature(headers['X-Signature'], headers['X-Timestamp'], 'GET', path);
+
+    expect(await verify('/api/products?page=2')).toBe(true);
+    expect(await verify('/api/products?page=3')).toBe(false);
+    expect(await verify('/api/products')).toBe(false);
+  });
+
+  it('reject a signature made without the query against a path that has one', async () => {
+    const security = manager();
+    const headers = await security.getAuthHeaders('GET', '/api/products');
+
+    expect(await security.verifySignature(headers['X-Signature'], headers['X-Timestamp'], 'GET', '/api/products?page=2')).toBe(false);
+  });
+});
+
+describe('SecurityManager key ids', () => {
+  it('refuses to sign with a key id missing from the ring', async () => {
+    const keys = new KeyRing([{ id: 'k1', secret: 's1' }]);
+    const security = manager({ secretKey: 'sk_test', keys });
+    const timestamp = String(Math.floor(Date.now() / 1000));
+
+    await expect(security.generateSignature(timestamp, 'GET', '/api/products', '', { keyId: 'k9' })).rejects.toThrow('Unknown signing key: k9');
+
+    const signature = await security.generateSignature(timestamp, 'GET', '/api/products', '', { keyId: 'k1' });
+    keys.remove('k1');
+    expect(await security.verifySignature(signature, timestamp, 'GET', '/api/products', '', { keyId: 'k1' })).toBe(false);
+  });
+});
@@ -4,18 +4,43 @@
  */
 
 import { Environment } from './environment';
+import { hmacSha256Hex, sha256Hex } from './digest';
+import { noopLogger, type Logger } from './logger';
+import type { KeyRing } from './keyring';
+import { canonicalRequest, pickSignedHeaders } from './canonical';
 
 export interface SecurityConfig {
   publicKey: string;
   secretKey?: string; // Only for server-side
-  signatureVersion: string;
+  keys?: KeyRing; // Rotating secrets; the primary key signs and is sent as X-Key-Id (takes precedence over secretKey)
+  signatureVersion: string; // 'v1' (method, path, body) or 'v2' (canonical URL and signed headers, see core/canonical)
   timestampTolerance: number;
   authToken?: string; // Bearer token for authenticated requests
   cartToken?: string; // Cart token for session management
+  nonce?: boolean; // Sign a random X-Nonce into every request so it can only be accepted once
+  logger?: Logger; // Silent unless provided
+}
+
+/**
+ * Optional lines signed after the body hash
+ */
+export interface SignatureExtras {
+  keyId?: string; // X-Key-Id
+  nonce?: string; // X-Nonce
+  headers?: Record<string, string>; // v2: the signed headers (X-Signed-Headers) and their values
+}
+
+/**
+ * The outgoing request, for signature v2
+ */
+export interface SigningContext {
+  url?: string; // Absolute URL; v2 signs its host, path and query
+  headers?: Record<string, string>; // Headers the request goes out with; v2 signs those in SIGNED_HEADERS
 }
 
 export class SecurityManager {
   private config: SecurityConfig;
+  private logger: Logger;
 
   constructor(config: SecurityConfig) {
     this.config = {
@@ -23,6 +48,7 @@ export class SecurityManager {
       signatureVersion: config.signatureVersion || 'v1',
       timestampTolerance: config.timestampTolerance || 300 // 5 minutes
     };
+    this.logger = config.logger || noopLogger;
 
     // Validate security requirements
     this.validateConfig();
@@ -62,87 +88,155 @@ export class SecurityManager {
     }
 
     // Server-side requires secret key for HMAC
-    if (Environment.info.isServer && !this.config.secretKey) {
+    if (Environment.info.isServer && !this.config.secretKey && !this.config.keys) {
       throw new Error('Secret key is required for server-side operations');
     }
 
     // Client-side should not have secret key
-    if (Environment.info.isBrowser && this.config.secretKey) {
-      console.warn('Secret key detected in browser environment. This is a security risk!');
+    if (Environment.info.isBrowser && (this.config.secretKey || this.config.keys)) {
+      this.logger.warn('Secret key detected in browser environment. This is a security risk!');
     }
   }
 
   /**
-   * Generate HMAC signature (server-side only)
+   * Generate HMAC signature (requires the secret key, or the ring key named by `keyId`; a key id missing
+   * from the ring throws rather than falling back to the secret key).
+   * v1 payload lines: version, timestamp, METHOD, path, sha256(body), then the key id and the nonce when sent.
+   * v2 replaces METHOD and path with the canonical request of `path` (an absolute URL) and `extras.headers`.
    */
   async generateSignature(
     timestamp: string,
     method: string,
     path: string,
-    body: string = ''
+    body: string = '',
+    extras: SignatureExtras = {}
   ): Promise<string> {
-    if (!Environment.info.isServer) {
-      throw new Error('Signature generation is only available server-side');
+    const { keyId, nonce, headers } = extras;
+    let secret = this.config.secretKey;
+    if (keyId && this.config.keys) {
+      const key = this.config.keys.get(keyId);
+      if (!key) {
+        throw new Error(`Unknown signing key: ${keyId}`);
+      }
+      secret = key.secret;
     }
-
-    if (!this.config.secretKey) {
+    if (!secret) {
       throw new Error('Secret key required for signature generation');
     }
 
-    const crypto = Environment.getCrypto();
-    if (!crypto) {
-      throw new Error('Crypto module not available');
-    }
-
     // Create payload for signing
+    const request = this.config.signatureVersion === 'v2'
+      ? canonicalRequest(method, path, headers)
+      : [method.toUpperCase(), path];
     const payload = [
       this.config.signatureVersion,
       timestamp,
-      method.toUpperCase(),
-      path,
-      this.hashString(body, crypto)
+      ...request,
+      await sha256Hex(body),
+      ...(keyId ? [keyId] : []),
+      ...(nonce ? [nonce] : [])
     ].join('\n');
 
-    // Generate HMAC signature
-    const hmac = crypto.createHmac('sha256', this.config.secretKey);
-    hmac.update(payload);
-    return hmac.digest('hex');
+    return hmacSha256Hex(secret, payload);
   }
 
   /**
-   * Verify HMAC signature (server-side only)
+   * Verify HMAC signature. v1 signatures cover the path with its query string, v2 signatures the absolute URL;
+   * pass `path` accordingly.
    */
   async verifySignature(
     signature: string,
     timestamp: string,
     method: string,
     path: string,
-    body: string = ''
+    body: string = '',
+    extras: SignatureExtras = {}
   ): Promise<boolean> {
-    if (!Environment.info.isServer) {
-      throw new Error('Signature verification is only available server-side');
+    if (!this.isTimestampValid(timestamp)) {
+      return false;
+    }
+
+    try {
+      const expectedSignature = await this.generateSignature(timestamp, method, path, body, extras);
+      return this.constantTimeCompare(signature, expectedSignature);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Check that an X-Timestamp (Unix seconds) is within `timestampTolerance` of now
+   */
+  isTimestampValid(timestamp: string): boolean {
+    if (!/^\d+$/.test(timestamp)) {
+      return false;
     }
 
-    // Check timestamp validity
     const now = Math.floor(Date.now() / 1000);
-    const requestTime = parseInt(timestamp);
-    
-    if (Math.abs(now - requestTime) > this.config.timestampTolerance) {
+    return Math.abs(now - Number(timestamp)) <= this.config.timestampTolerance;
+  }
+
+  /**
+   * Sign a GET URL so a browser can fetch it without credentials until it expires (server-side only).
+   * Appends `key`, `expires`, `signature_version`, `key_id` (with a key ring) and then `signature`, an HMAC over
+   * everything before it with `expires` as the timestamp: the path and query under v1, the absolute URL under v2.
+   */
+  async signUrl(url: string, expiresIn: number = 300): Promise<string> {
+    const target = new URL(url);
+    const expires = (Math.floor(Date.now() / 1000) + expiresIn).toString();
+
+    target.searchParams.set('key', this.config.publicKey);
+    target.searchParams.set('expires', expires);
+    target.searchParams.set('signature_version', this.config.signatureVersion);
+
+    const keyId = this.config.keys?.primary()?.id;
+    if (keyId) {
+      target.searchParams.set('key_id', keyId);
+    }
+
+    const signature = await this.generateSignature(expires, 'GET', signedUrlTarget(target, this.config.signatureVersion), '', { keyId });
+    target.searchParams.set('signature', signature);
+
+    return target.toString();
+  }
+
+  /**
+   * Check a URL produced by `signUrl()`: unexpired, signed with this version and secret.
+   * `url` must be absolute; under v2 its host is signed too.
+   */
+  async verifySignedUrl(url: string): Promise<boolean> {
+    const target = new URL(url);
+    const signature = target.searchParams.get('signature');
+    const expires = target.searchParams.get('expires');
+
+    if (!signature || !expires || !/^\d+$/.test(expires) || Number(expires) <= Math.floor(Date.now() / 1000)) {
       return false;
     }
+    if ((target.searchParams.get('signature_version') || 'v1') !== this.config.signatureVersion) {
+      return false;
+    }
+
+    target.searchParams.delete('signature');
+    const keyId = target.searchParams.get('key_id') || undefined;
 
     try {
-      const expectedSignature = await this.generateSignature(timestamp, method, path, body);
-      return this.constantTimeCompare(signature, expectedSignature);
+      const expected = await this.generateSignature(expires, 'GET', signedUrlTarget(target, this.config.signatureVersion), '', { keyId });
+      return this.constantTimeCompare(signature, expected);
     } catch {
       return false;
     }
   }
 
   /**
-   * Get authentication headers for requests
+   * Get authentication headers for requests. v1 signs `path`; v2 signs `request.url` (falling back to `path`)
+   * and the signed headers among `request.headers` and the auth/cart tokens added here.
    */
-  getAuthHeaders(method: string, path: string, body: string = ''): Record<string, string> {
+  async getAuthHeaders(
+    method: string,
+    path: string,
+    body: string = '',
+    request: SigningContext = {}
+  ): Promise<Record<string, string>> {
     const timestamp = Math.floor(Date.now() / 1000).toString();
     
     const headers: Record<string, string> = {
@@ -154,32 +248,44 @@ export class SecurityManager {
     // Add Bearer token for authenticated requests
     if (this.config.authToken) {
       headers['Authorization'] = `Bearer ${this.config.authToken}`;
-      // console.log('DEBUG: Adding Authorization header:', `Bearer ${this.config.authToken.substring(0, 20)}...`);
-    } else {
-      // console.log('DEBUG: No auth token available, skipping Authorization header');
     }
 
     // Add cart token for session management
     if (this.config.cartToken) {
       headers['X-Cart-Token'] = this.config.cartToken;
-      // console.log('DEBUG: Adding cart token header:', this.config.cartToken.substring(0, 10) + '...');
     }
 
-    // Add signature for both server-side and client-side requests if secret key is available
-    if (this.config.secretKey) {
+    const key = this.config.keys?.primary();
+    if (this.config.keys && !key) {
+      this.logger.warn('No active key in the key ring', { keys: this.config.keys.keys.map(entry => entry.id) });
+    }
+
+    // Sign whenever a secret key is available (Web Crypto works in every runtime)
+    if (key || this.config.secretKey) {
       try {
-        if (Environment.info.isServer) {
-          // For server-side, use synchronous generation
-          const signature = this.generateSignatureSync(timestamp, method, path, body);
-          headers['X-Signature'] = signature;
-        } else if (Environment.info.isBrowser) {
-          // For browser, use async Web Crypto API
-          // We'll generate this synchronously using a crypto library for browser
-          const signature = this.generateBrowserSignature(timestamp, method, path, body);
-          headers['X-Signature'] = signature;
+        const nonce = this.config.nonce ? this.generateSecureRandom(16) : undefined;
+        if (key) {
+          headers['X-Key-Id'] = key.id;
+        }
+        if (nonce) {
+          headers['X-Nonce'] = nonce;
+        }
+
+        let target = path;
+        let signed: Record<string, string> | undefined;
+        if (this.config.signatureVersion === 'v2') {
+          target = request.url || path;
+          signed = pickSignedHeaders({ ...headers, ...request.headers });
+          headers['X-Signed-Headers'] = Object.keys(signed).join(';');
         }
+
+        headers['X-Signature'] = await this.generateSignature(timestamp, method, target, body, {
+          keyId: key?.id,
+          nonce,
+          headers: signed
+        });
       } catch (error) {
-        console.warn('Failed to generate signature:', error);
+        this.logger.warn('Failed to generate signature', { error });
         headers['X-Client-Auth'] = 'true';
       }
     } else {
@@ -190,97 +296,6 @@ export class SecurityManager {
     return headers;
   }
 
-  /**
-   * Synchronous signature generation for Node.js
-   */
-  private generateSignatureSync(
-    timestamp: string,
-    method: string,
-    path: string,
-    body: string = ''
-  ): string {
-    if (!Environment.info.isServer || !this.config.secretKey) {
-      throw new Error('Synchronous signature generation requires server environment and secret key');
-    }
-
-    const crypto = Environment.getCrypto();
-    if (!crypto) {
-      throw new Error('Crypto module not available');
-    }
-
-    const payload = [
-      this.config.signatureVersion,
-      timestamp,
-      method.toUpperCase(),
-      path,
-      crypto.createHash('sha256').update(body).digest('hex')
-    ].join('\n');
-
-    return crypto.createHmac('sha256', this.config.secretKey).update(payload).digest('hex');
-  }
-
-  /**
-   * Hash string with SHA-256
-   */
-  private hashString(input: string, crypto: any): string {
-    if (Environment.info.isServer) {
-      return crypto.createHash('sha256').update(input).digest('hex');
-    } else {
-      // For browser environment, we need to use Web Crypto API
-      // This is a simplified implementation
-      return input; // In real implementation, use Web Crypto API
-    }
-  }
-
-  /**
-   * Generate HMAC signature for browser environments
-   * Uses a synchronous approach that mimics the server implementation
-   */
-  private generateBrowserSignature(
-    timestamp: string,
-    method: string,
-    path: string,
-    body: string = ''
-  ): string {
-    if (!this.config.secretKey) {
-      throw new Error('Secret key required for signature generation');
-    }
-
-    // Use the same logic as server-side
-    const bodyHash = this.sha256(body);
-    const payload = [
-      this.config.signatureVersion,
-      timestamp,
-      method.toUpperCase(),
-      path,
-      bodyHash
-    ].join('\n');
-
-    // Generate HMAC using the same method as server
-    return this.hmacSha256(payload, this.config.secretKey);
-  }
-
-  /**
-   * SHA-256 hash implementation compatible with server
-   */
-  private sha256(data: string): string {
-    // For empty string, return the standard SHA-256 hash
-    if (!data) {
-      return 'e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855';
-    }
-
-    // Use crypto-js library approach
-    return require('crypto-js/sha256')(data).toString();
-  }
-
-  /**
-   * HMAC-SHA256 implementation compatible with server
-   */
-  private hmacSha256(data: string, key: string): string {
-    const CryptoJS = require('crypto-js');
-    return CryptoJS.HmacSHA256(data, key).toString();
-  }
-
   /**
    * Constant-time string comparison to prevent timing attacks
    */
@@ -334,8 +349,7 @@ export class SecurityManager {
         if (!isSensitive) {
           sanitized[key] = this.sanitizeClientData(value);
         } else {
-          // Debug: Log what's being filtered out
-          console.log(`🚫 SecurityManager: Filtering out sensitive field: ${key} (isAllowedToken: ${isAllowedToken})`);
+          this.logger.debug('Filtered sensitive field from response', { field: key });
         }
       }
 
@@ -351,7 +365,12 @@ export class SecurityManager {
   generateSecureRandom(length: number = 32): string {
     const crypto = Environment.getCrypto();
     
-    if (Environment.info.isServer && crypto) {
+    // Web Crypto: Node.js 19+, browsers, workers, Deno and Bun
+    if (typeof globalThis.crypto?.getRandomValues === 'function') {
+      const array = new Uint8Array(length);
+      globalThis.crypto.getRandomValues(array);
+      return Array.from(array, byte => byte.toString(16).padStart(2, '0')).join('');
+    } else if (Environment.info.isServer && crypto) {
       return crypto.randomBytes(length).toString('hex');
     } else if (Environment.info.isBrowser && crypto && crypto.getRandomValues) {
       const array = new Uint8Array(length);
@@ -360,7 +379,7 @@ export class SecurityManager {
     }
 
     // Fallback (less secure)
-    console.warn('Using fallback random generation - not cryptographically secure');
+    this.logger.warn('Using fallback random generation - not cryptographically secure');
     return Math.random().toString(36).substring(2) + Date.now().toString(36);
   }
 
@@ -386,4 +405,11 @@ export class SecurityManager {
 
     return true;
   }
-}
\ No newline at end of file
+}
+
+/**
+ * What a signed URL's signature covers: the path and query (v1) or the absolute URL (v2)
+ */
+function signedUrlTarget(url: URL, version: string): string {
+  return version === 'v2' ? url.toString() : url.pathname + url.search;
+}
@@ -0,0 +1,127 @@
+/**
+ * Storage Adapters - Pluggable key-value persistence for SDK state
+ * Values are JSON-serializable; adapters may be sync or async
+ */
+
+export interface StorageAdapter {
+  get(key: string): any | Promise<any>;
+  set(key: string, value: any): void | Promise<void>;
+  delete(key: string): void | Promise<void>;
+  keys(prefix?: string): string[] | Promise<string[]>;
+}
+
+export interface MemoryStorageOptions {
+  maxEntries?: number; // Oldest writes are dropped beyond this (default: unbounded)
+}
+
+/**
+ * In-memory storage (default). Values are kept serialized like localStorage,
+ * so mutating what `get()` returns (or what was passed to `set()`) never changes the entry.
+ */
+export class MemoryStorage implements StorageAdapter {
+  private store: Map<string, string> = new Map();
+  private maxEntries: number;
+
+  constructor(options: MemoryStorageOptions = {}) {
+    this.maxEntries = options.maxEntries ?? Infinity;
+  }
+
+  get(key: string): any {
+    const raw = this.store.get(key);
+    return raw === undefined ? undefined : JSON.parse(raw);
+  }
+
+  set(key: string, value: any): void {
+    const raw = JSON.stringify(value);
+    this.store.delete(key);
+    if (raw === undefined) {
+      return;
+    }
+
+    this.store.set(key, raw);
+    for (const oldest of this.store.keys()) {
+      if (this.store.size <= this.maxEntries) {
+        break;
+      }
+      this.store.delete(oldest);
+    }
+  }
+
+  delete(key: string): void {
+    this.store.delete(key);
+  }
+
+  keys(prefix = ''): string[] {
+    return Array.from(this.store.keys()).filter(key => key.startsWith(prefix));
+  }
+}
+
+/**
+ * Browser localStorage, namespaced so `keys()` only sees SDK entries
+ */
+export class LocalStorageAdapter implements StorageAdapter {
+  private namespace: string;
+
+  constructor(namespace = 'rmz:') {
+    this.namespace = namespace;
+  }
+
+  static isAvailable(): boolean {
+    try {
+      return typeof localStorage !== 'undefined' && localStorage !== null;
+    } catch {
+      return false;
+    }
+  }
+
+  get(key: string): any {
+    const raw = localStorage.getItem(this.namespace + key);
+    if (raw === null) {
+      return undefined;
+    }
+
+    try {
+      return JSON.parse(raw);
+    } catch {
+      return undefined;
+    }
+  }
+
+  set(key: string, value: any): void {
+    try {
+      localStorage.setItem(this.namespace + key, JSON.stringify(value));
+    } catch {
+      // Quota exceeded or storage disabled - persistence is best effort
+    }
+  }
+
+  delete(key: string): void {
+    localStorage.removeItem(this.namespace + key);
+  }
+
+  keys(prefix = ''): string[] {
+    const result: string[] = [];
+
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key && key.startsWith(this.namespace + prefix)) {
+        result.push(key.slice(this.namespace.length));
+      }
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Resolve a storage option, falling back to memory where localStorage is unavailable
+ */
+export function resolveStorage(storage?: StorageAdapter | 'memory' | 'localStorage'): StorageAdapter {
+  if (storage === 'localStorage') {
+    return LocalStorageAdapter.isAvailable() ? new LocalStorageAdapter() : new MemoryStorage();
+  }
+  if (!storage || storage === 'memory') {
+    return new MemoryStorage();
+  }
+  return storage;
+}
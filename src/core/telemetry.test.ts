@@ -0,0 +1,130 @@
+import { Telemetry, SpanKind, routeTemplate, type AttributeValue, type Meter, type Span, type SpanOptions, type Tracer } from './telemetry';
+import { SecureStorefrontSDK } from '../secure-storefront-sdk';
+import { createFakeStorefront } from '../testing/fake-server';
+
+interface RecordedSpan {
+  name: string;
+  kind?: number;
+  attributes: Record<string, AttributeValue>;
+  status?: { code: number; message?: string };
+  exceptions: Error[];
+  ended: boolean;
+}
+
+/**
+ * In-memory tracer and meter shaped like the OpenTelemetry API
+ */
+function recorder(options: { active?: boolean; traceId?: string } = {}) {
+  const spans: RecordedSpan[] = [];
+  const measurements: Array<{ name: string; unit?: string; value: number; attributes?: Record<string, AttributeValue> }> = [];
+
+  const startSpan = (name: string, spanOptions: SpanOptions = {}): Span => {
+    const recorded: RecordedSpan = { name, kind: spanOptions.kind, attributes: { ...spanOptions.attributes }, exceptions: [], ended: false };
+    spans.push(recorded);
+    return {
+      spanContext: () => ({ traceId: options.traceId ?? '4bf92f3577b34da6a3ce929d0e0e4736', spanId: `00f067aa0ba902b${spans.length}`, traceFlags: 1 }),
+      setAttribute: (key, value) => { recorded.attributes[key] = value; },
+      setStatus: status => { recorded.status = status; },
+      recordException: exception => { recorded.exceptions.push(exception); },
+      end: () => { recorded.ended = true; }
+    };
+  };
+
+  const tracer: Tracer = options.active
+    ? { startSpan, startActiveSpan: (name, spanOptions, fn) => fn(startSpan(name, spanOptions)) as ReturnType<typeof fn> }
+    : { startSpan };
+  const meter: Meter = {
+    createHistogram: (name, histogramOptions) => ({
+      record: (value, attributes) => { measurements.push({ name, unit: histogramOptions?.unit, value, attributes }); }
+    })
+  };
+
+  return { tracer, meter, spans, measurements };
+}
+
+describe('Telemetry', () => {
+  it.each([false, true])('ends the span with its outcome (startActiveSpan: %s)', async (active) => {
+    const { tracer, spans } = recorder({ active });
+    const telemetry = new Telemetry({ tracer });
+
+    await expect(telemetry.trace('ok', { kind: SpanKind.CLIENT }, async () => 'done')).resolves.toBe('done');
+    await expect(telemetry.trace('failed', {}, async () => { throw new Error('boom'); })).rejects.toThrow('boom');
+
+    expect(spans).toMatchObject([
+      { name: 'ok', kind: SpanKind.CLIENT, status: { code: 1 }, exceptions: [], ended: true },
+      { name: 'failed', status: { code: 2, message: 'boom' }, exceptions: [new Error('boom')], ended: true }
+    ]);
+  });
+
+  it('runs the function without a span when no tracer is configured', async () => {
+    const fn = jest.fn(async (span?: Span) => span);
+
+    await expect(new Telemetry({}).trace('plain', {}, fn)).resolves.toBeUndefined();
+    expect(fn).toHaveBeenCalledWith(undefined);
+  });
+
+  it('formats W3C traceparent headers', () => {
+    const { tracer } = recorder();
+    const span = tracer.startSpan('request');
+
+    expect(new Telemetry({ tracer }).traceHeaders(span)).toEqual({ traceparent: '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b1-01' });
+    expect(new Telemetry({ tracer, propagate: false }).traceHeaders(span)).toEqual({});
+    expect(new Telemetry({ tracer }).traceHeaders(undefined)).toEqual({});
+
+    const noop = recorder({ traceId: '00000000000000000000000000000000' });
+    expect(new Telemetry({ tracer: noop.tracer }).traceHeaders(noop.tracer.startSpan('request'))).toEqual({});
+  });
+
+  it('records durations in seconds without undefined attributes', () => {
+    const { meter, measurements } = recorder();
+    const telemetry = new Telemetry({ meter });
+
+    telemetry.recordDuration('http.client.request.duration', 'Duration', 1500, { 'http.route': '/products', 'error.type': undefined });
+
+    expect(measurements).toEqual([{ name: 'http.client.request.duration', unit: 's', value: 1.5, attributes: { 'http.route': '/products' } }]);
+  });
+});
+
+describe('routeTemplate', () => {
+  it.each([
+    ['/products/42/reviews', '/products/:id/reviews'],
+    ['/orders/3f2504e0-4f89-11d3-9a0c-0305e82c3301', '/orders/:id'],
+    ['/downloads/9f86d081884c7d659a2feaa0c55ad015', '/downloads/:id'],
+    ['/products/blue-shirt', '/products/blue-shirt'],
+    ['/cart', '/cart']
+  ])('%s → %s', (path, template) => {
+    expect(routeTemplate(path)).toBe(template);
+  });
+});
+
+describe('SecureStorefrontSDK telemetry', () => {
+  it('traces operations and HTTP requests and propagates the trace context', async () => {
+    const fake = createFakeStorefront();
+    const { tracer, meter, spans, measurements } = recorder({ active: true });
+    const sdk = new SecureStorefrontSDK({
+      apiUrl: fake.baseUrl,
+      publicKey: 'pk_test',
+      secretKey: 'sk_test',
+      telemetry: { tracer, meter },
+      transport: fake.fetch
+    });
+
+    await sdk.products.getById(1);
+    await expect(sdk.products.getById(999999)).rejects.toMatchObject({ status: 404 });
+
+    expect(spans.map(span => span.name)).toEqual([
+      'storefront.products.getById', 'GET /products/:id',
+      'storefront.products.getById', 'GET /products/:id'
+    ]);
+    expect(spans[1]).toMatchObject({
+      kind: SpanKind.CLIENT,
+      attributes: { 'http.request.method': 'GET', 'http.route': '/products/:id', 'http.response.status_code': 200, 'http.request.resend_count': 0 }
+    });
+    expect(spans[3].attributes).toMatchObject({ 'http.response.status_code': 404, 'error.type': 'NotFoundError' });
+    expect(fake.requests[0].headers.traceparent).toBe('00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b2-01');
+    expect(measurements.map(measurement => measurement.name)).toEqual([
+      'http.client.request.duration', 'storefront.operation.duration',
+      'http.client.request.duration', 'storefront.operation.duration'
+    ]);
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * Telemetry - Tracing and metrics hooks
+ * Structurally compatible with the OpenTelemetry API (`trace.getTracer()`,
+ * `metrics.getMeter()`) without depending on it.
+ */
+
+export type AttributeValue = string | number | boolean;
+export type Attributes = Record<string, AttributeValue | undefined>;
+
+export interface SpanContext {
+  traceId: string;
+  spanId: string;
+  traceFlags: number;
+}
+
+export interface SpanOptions {
+  kind?: number;
+  attributes?: Record<string, AttributeValue>;
+}
+
+export interface Span {
+  spanContext(): SpanContext;
+  setAttribute(key: string, value: AttributeValue): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error): unknown;
+  end(): void;
+}
+
+export interface Tracer {
+  startSpan(name: string, options?: SpanOptions): Span;
+  // Used when available so spans started inside (e.g. HTTP calls) become children
+  startActiveSpan?<F extends (span: Span) => unknown>(name: string, options: SpanOptions, fn: F): ReturnType<F>;
+}
+
+export interface Histogram {
+  record(value: number, attributes?: Record<string, AttributeValue>): void;
+}
+
+export interface Meter {
+  createHistogram(name: string, options?: { description?: string; unit?: string }): Histogram;
+}
+
+export interface TelemetryConfig {
+  tracer?: Tracer;
+  meter?: Meter;
+  propagate?: boolean; // Inject a W3C `traceparent` header into requests (default: true)
+}
+
+// OpenTelemetry enum values
+export const SpanKind = { INTERNAL: 0, CLIENT: 2 } as const;
+const SpanStatusCode = { OK: 1, ERROR: 2 } as const;
+
+const INVALID_TRACE_ID = /^0+$/;
+
+export class Telemetry {
+  private tracer?: Tracer;
+  private meter?: Meter;
+  private propagate: boolean;
+  private histograms: Map<string, Histogram> = new Map();
+
+  constructor(config: TelemetryConfig) {
+    this.tracer = config.tracer;
+    this.meter = config.meter;
+    this.propagate = config.propagate ?? true;
+  }
+
+  /**
+   * Run `fn` inside a span. The span records exceptions and is always ended.
+   */
+  async trace<T>(name: string, options: SpanOptions, fn: (span?: Span) => Promise<T>): Promise<T> {
+    const tracer = this.tracer;
+    if (!tracer) {
+      return fn(undefined);
+    }
+
+    const run = async (span: Span): Promise<T> => {
+      try {
+        const result = await fn(span);
+        span.setStatus({ code: SpanStatusCode.OK });
+        return result;
+      } catch (error) {
+        const exception = error instanceof Error ? error : new Error(String(error));
+        span.recordException(exception);
+        span.setStatus({ code: SpanStatusCode.ERROR, message: exception.message });
+        throw error;
+      } finally {
+        span.end();
+      }
+    };
+
+    return tracer.startActiveSpan
+      ? tracer.startActiveSpan(name, options, run)
+      : run(tracer.startSpan(name, options));
+  }
+
+  /**
+   * Set the defined attributes on a span
+   */
+  annotate(span: Span | undefined, attributes: Attributes): void {
+    if (!span) {
+      return;
+    }
+
+    for (const [key, value] of Object.entries(definedAttributes(attributes))) {
+      span.setAttribute(key, value);
+    }
+  }
+
+  /**
+   * Record a duration (ms) on a histogram, converted to seconds as OpenTelemetry recommends
+   */
+  recordDuration(name: string, description: string, durationMs: number, attributes: Attributes): void {
+    if (!this.meter) {
+      return;
+    }
+
+    let histogram = this.histograms.get(name);
+    if (!histogram) {
+      histogram = this.meter.createHistogram(name, { description, unit: 's' });
+      this.histograms.set(name, histogram);
+    }
+
+    histogram.record(durationMs / 1000, definedAttributes(attributes));
+  }
+
+  /**
+   * W3C trace context headers for a span
+   */
+  traceHeaders(span?: Span): Record<string, string> {
+    if (!span || !this.propagate) {
+      return {};
+    }
+
+    const { traceId, spanId, traceFlags } = span.spanContext();
+    if (!traceId || INVALID_TRACE_ID.test(traceId)) {
+      return {};
+    }
+
+    return { traceparent: `00-${traceId}-${spanId}-${(traceFlags & 0xff).toString(16).padStart(2, '0')}` };
+  }
+}
+
+/**
+ * Low-cardinality route template: numeric, UUID and hash-like segments become `:id`
+ * ('/products/42/reviews' → '/products/:id/reviews')
+ */
+export function routeTemplate(path: string): string {
+  return path
+    .split('/')
+    .map(segment =>
+      /^\d+$/.test(segment) ||
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(segment) ||
+      /^[0-9a-f]{16,}$/i.test(segment)
+        ? ':id'
+        : segment
+    )
+    .join('/');
+}
+
+function definedAttributes(attributes: Attributes): Record<string, AttributeValue> {
+  const result: Record<string, AttributeValue> = {};
+
+  for (const [key, value] of Object.entries(attributes)) {
+    if (value !== undefined) {
+      result[key] = value;
+    }
+  }
+
+  return result;
+}
@@ -5,6 +5,8 @@ export {
   useStorefrontSDK,
   useStorefront,
   type StorefrontConfig,
+  type RequestOptions,
+  type IterateOptions,
   type ApiResponse as SecureApiResponse,
   type Product,
   type Category,
@@ -24,6 +26,76 @@ export {
 // Core Security & Environment (for advanced usage)
 export { Environment } from './core/environment';
 export { SecurityManager } from './core/security';
+export { KeyRing, createKeyRing, type SigningKey, type KeyRotation } from './core/keyring';
+export {
+  UniversalHttpClient,
+  type HttpConfig,
+  type HttpMethod,
+  type RetryMode,
+  type RetryPolicy,
+  type HttpRequest,
+  type HttpRequestOptions,
+  type DownloadRequestOptions,
+  type HttpResponse,
+  type HttpHandler,
+  type HttpMiddleware,
+  type HttpTransport
+} from './core/http-client';
+export { RateLimiter, type RateLimiterConfig, type RateLimitStatus } from './core/rate-limiter';
+export { CircuitBreaker, type CircuitBreakerConfig, type CircuitBreakerEvents, type CircuitState } from './core/circuit-breaker';
+export { ResponseCache, DEFAULT_CACHE_ROUTES, type CacheConfig, type CacheRule, type InvalidationRule } from './core/cache';
+export { MemoryStorage, LocalStorageAdapter, type StorageAdapter, type MemoryStorageOptions } from './core/storage';
+export {
+  OfflineQueue,
+  type OfflineQueueConfig,
+  type OfflineQueueEvents,
+  type QueuedMutation,
+  type ReplayedMutation
+} from './core/offline-queue';
+export {
+  createConsoleLogger,
+  createRedactingLogger,
+  redact,
+  noopLogger,
+  type Logger,
+  type LogLevel,
+  type LogFields
+} from './core/logger';
+export { schema, formatIssues, type Schema, type SchemaIssue, type Shape } from './core/schema';
+export { modelSchemas } from './core/model-schemas';
+export { unwrap, paginate, normalizePagination, type Paginated, type Pagination, type Envelope } from './core/envelope';
+export { createPageIterator, type PageIterator, type PageIteratorOptions } from './core/pagination';
+export { Download, parseContentDisposition, type DownloadOptions, type DownloadProgress } from './core/download';
+export { toFormData, multipartManifest } from './core/multipart';
+export { canonicalRequest, canonicalQuery, SIGNED_HEADERS } from './core/canonical';
+export type { ConnectionConfig } from './core/connection';
+export type {
+  TelemetryConfig,
+  Tracer,
+  Span,
+  SpanOptions,
+  SpanContext,
+  Meter,
+  Histogram,
+  Attributes,
+  AttributeValue
+} from './core/telemetry';
+
+// Errors
+export {
+  StorefrontError,
+  ValidationError,
+  AuthenticationError,
+  NotFoundError,
+  RateLimitError,
+  NetworkError,
+  TimeoutError,
+  AbortError,
+  CircuitOpenError,
+  OfflineQueuedError,
+  SchemaValidationError,
+  type ErrorResponse
+} from './core/errors';
 
 // Advanced Client (Firebase/Supabase style - Legacy)
 export { 
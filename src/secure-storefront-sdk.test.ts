@@ -0,0 +1,74 @@
+import { SecureStorefrontSDK } from './secure-storefront-sdk';
+import { createFakeStorefront } from './testing/fake-server';
+import { AbortError } from './core/errors';
+import type { Logger } from './core/logger';
+
+function capture() {
+  const entries: Array<{ message: string; fields?: Record<string, unknown> }> = [];
+  const record = (message: string, fields?: Record<string, unknown>) => entries.push({ message, fields });
+  const logger: Logger = { debug: record, info: record, warn: record, error: record };
+  return { logger, entries };
+}
+
+describe('SecureStorefrontSDK phone auth', () => {
+  it('logs status and field names, never OTP request or response bodies', async () => {
+    const fake = createFakeStorefront({ otpCode: '654321' });
+    const { logger, entries } = capture();
+    const sdk = new SecureStorefrontSDK({
+      apiUrl: fake.baseUrl,
+      publicKey: 'pk_test',
+      secretKey: 'sk_test',
+      logger,
+      logLevel: 'debug',
+      transport: fake.fetch
+    });
+
+    const { session_token } = await sdk.auth.startPhoneAuth('500000001', '966');
+    const { token } = await sdk.auth.verifyOTP('654321', session_token);
+
+    const logged = JSON.stringify(entries);
+    expect(logged).not.toContain('654321');
+    expect(logged).not.toContain(session_token);
+    expect(logged).not.toContain(token);
+    expect(entries).toContainEqual({ message: 'OTP verified', fields: { status: 200, fields: ['type', 'token', 'customer'] } });
+  });
+
+  it('returns the response body when it carries no session_token', async () => {
+    const sdk = new SecureStorefrontSDK({
+      apiUrl: 'http://storefront.test/api',
+      publicKey: 'pk_test',
+      secretKey: 'sk_test',
+      transport: async () => new Response(JSON.stringify({ success: true, data: { status: 'pending' } }), {
+        headers: { 'Content-Type': 'application/json' }
+      })
+    });
+
+    await expect(sdk.auth.startPhoneAuth('500000001', '966')).resolves.toEqual({ success: true, data: { status: 'pending' } });
+  });
+});
+
+describe('SecureStorefrontSDK cancellation', () => {
+  it('threads the signal of a namespace method down to the transport', async () => {
+    const controller = new AbortController();
+    const signals: Array<AbortSignal | null | undefined> = [];
+    const sdk = new SecureStorefrontSDK({
+      apiUrl: 'http://storefront.test/api',
+      publicKey: 'pk_test',
+      secretKey: 'sk_test',
+      transport: (_url, init) => new Promise((_resolve, reject) => {
+        signals.push(init.signal);
+        init.signal?.addEventListener('abort', () => reject(new DOMException('The operation was aborted', 'AbortError')));
+        if (signals.length === 2) {
+          controller.abort();
+        }
+      })
+    });
+
+    const search = sdk.products.search('sh', { per_page: 5 }, { signal: controller.signal });
+    const addItem = sdk.cart.addItem(1, 1, undefined, { signal: controller.signal });
+
+    await expect(search).rejects.toBeInstanceOf(AbortError);
+    await expect(addItem).rejects.toBeInstanceOf(AbortError);
+    expect(signals).toHaveLength(2);
+  });
+});
@@ -6,18 +6,66 @@
 
 import { Environment } from './core/environment';
 import { SecurityManager } from './core/security';
-import { UniversalHttpClient } from './core/http-client';
+import { UniversalHttpClient, type DownloadRequestOptions, type HttpMethod, type HttpResponse, type HttpTransport, type RetryPolicy } from './core/http-client';
+import type { Download } from './core/download';
+import { StorefrontError, NetworkError, CircuitOpenError, OfflineQueuedError, SchemaValidationError } from './core/errors';
+import type { RateLimiterConfig, RateLimitStatus } from './core/rate-limiter';
+import type { CircuitBreaker, CircuitBreakerConfig } from './core/circuit-breaker';
+import type { CacheConfig } from './core/cache';
+import { Telemetry, SpanKind, type TelemetryConfig } from './core/telemetry';
+import { createConsoleLogger, createRedactingLogger, noopLogger, type Logger, type LogLevel } from './core/logger';
+import { formatIssues, type Schema } from './core/schema';
+import { modelSchemas } from './core/model-schemas';
+import { unwrap, paginate, type Paginated } from './core/envelope';
+import { OfflineQueue, type OfflineQueueConfig, type QueuedMutation, type ReplayedMutation } from './core/offline-queue';
+import { createPageIterator, type PageIterator } from './core/pagination';
+import type { ConnectionConfig } from './core/connection';
+import { hasFiles, isFormData } from './core/multipart';
+import { KeyRing, type SigningKey } from './core/keyring';
 
 export interface StorefrontConfig {
   apiUrl: string;
   publicKey: string;
   secretKey?: string; // Only for server-side
+  keys?: KeyRing | SigningKey[]; // Rotating secrets identified by key id (server-side); used instead of secretKey
   environment?: 'production' | 'development';
   version?: string;
   timeout?: number;
   maxRetries?: number;
   retryDelay?: number;
-  enableLogging?: boolean;
+  enableLogging?: boolean; // Shorthand for a console logger
+  logger?: Logger; // Structured logger (console, pino, winston, ...); fields are redacted
+  logLevel?: LogLevel; // Minimum level passed to the logger (default: 'debug')
+  validation?: 'strict' | 'warn' | 'off'; // Response schema checks (default: strict in development, warn in production)
+  transport?: HttpTransport; // Custom fetch implementation (defaults to global fetch)
+  retryPolicy?: RetryPolicy; // Per-method retry mode, e.g. { POST: 'never' }
+  idempotencyKeys?: boolean; // Generate an Idempotency-Key on mutating requests, making POST/PATCH retryable (default: false)
+  rateLimit?: RateLimiterConfig | boolean; // Queue requests client-side once the budget is spent
+  circuitBreaker?: CircuitBreakerConfig | boolean; // Fail fast while the API is down
+  dedupe?: boolean; // Coalesce identical concurrent GETs (default: true)
+  cache?: CacheConfig | boolean; // Cache catalog reads with ETag revalidation
+  offline?: OfflineQueueConfig | boolean; // Queue cart/wishlist mutations made while offline
+  telemetry?: TelemetryConfig; // OpenTelemetry-compatible tracer/meter for requests and operations
+  connection?: ConnectionConfig | boolean; // Node.js keep-alive pooling, proxy (HTTPS_PROXY / NO_PROXY) and CA certificates
+  signatureVersion?: 'v1' | 'v2'; // 'v2' also signs the host, the canonical query and the auth, cart and content-type headers (default: 'v1')
+  nonce?: boolean; // Sign a random X-Nonce into each request so the API can reject replays (default: false)
+}
+
+/**
+ * Per-call options accepted by every namespace method
+ */
+export interface RequestOptions {
+  signal?: AbortSignal; // Cancels the request; aborted calls are never retried
+  idempotencyKey?: string; // Explicit Idempotency-Key for mutating calls
+  dedupe?: boolean; // Set to false to always send a fresh GET
+  cache?: boolean; // Set to false to bypass the response cache
+}
+
+/**
+ * Options for the `iterate*` methods; request options apply to every page
+ */
+export interface IterateOptions extends RequestOptions {
+  concurrency?: number; // Pages prefetched ahead of the one being consumed (default: 1, 0 = on demand)
 }
 
 export interface ApiResponse<T = any> {
@@ -169,7 +217,13 @@ export class SecureStorefrontSDK {
     enableLogging: boolean;
   };
   private security: SecurityManager;
-  private http: UniversalHttpClient;
+  /**
+   * Underlying HTTP client, exposed for middleware (`sdk.http.use(...)`)
+   */
+  readonly http: UniversalHttpClient;
+  private offlineQueue?: OfflineQueue<Cart>;
+  private telemetry?: Telemetry;
+  private logger: Logger;
   private static instances: Map<string, SecureStorefrontSDK> = new Map();
 
   constructor(config: StorefrontConfig) {
@@ -183,12 +237,18 @@ export class SecureStorefrontSDK {
       ...config
     };
 
+    const logger = this.config.logger || (this.config.enableLogging ? createConsoleLogger() : undefined);
+    this.logger = logger ? createRedactingLogger(logger, this.config.logLevel) : noopLogger;
+
     // Initialize security manager
     this.security = new SecurityManager({
+      logger: this.logger,
       publicKey: this.config.publicKey,
       secretKey: this.config.secretKey,
-      signatureVersion: 'v1',
-      timestampTolerance: 300
+      keys: Array.isArray(this.config.keys) ? new KeyRing(this.config.keys) : this.config.keys,
+      signatureVersion: this.config.signatureVersion || 'v1',
+      timestampTolerance: 300,
+      nonce: this.config.nonce
     });
 
     // Initialize HTTP client
@@ -197,11 +257,46 @@ export class SecureStorefrontSDK {
         baseUrl: this.config.apiUrl,
         timeout: this.config.timeout,
         maxRetries: this.config.maxRetries,
-        retryDelay: this.config.retryDelay
+        retryDelay: this.config.retryDelay,
+        transport: this.config.transport,
+        retryPolicy: this.config.retryPolicy,
+        idempotencyKeys: this.config.idempotencyKeys,
+        rateLimit: this.config.rateLimit,
+        circuitBreaker: this.config.circuitBreaker,
+        dedupe: this.config.dedupe,
+        cache: this.config.cache,
+        telemetry: this.config.telemetry,
+        connection: this.config.connection,
+        logger: this.logger
       },
       this.security
     );
 
+    if (this.config.telemetry) {
+      this.telemetry = new Telemetry(this.config.telemetry);
+    }
+
+    if (this.config.offline) {
+      this.offlineQueue = new OfflineQueue<Cart>(this.config.offline === true ? {} : this.config.offline, {
+        send: async (mutation) => {
+          const response = await this.http.request({
+            method: mutation.method,
+            url: mutation.url,
+            data: mutation.data,
+            idempotencyKey: mutation.idempotencyKey
+          });
+
+          // The next replayed mutation must land in the cart this one created
+          const cartToken = mutation.scope === 'cart' ? unwrap<{ cart_token?: string } | undefined>(response.data, response)?.cart_token : undefined;
+          if (cartToken) {
+            this.setCartToken(cartToken);
+          }
+          return response;
+        },
+        reconcile: (replayed) => this.reconcileCart(replayed)
+      });
+    }
+
     this.log('SDK initialized', { environment: Environment.info.platform });
   }
 
@@ -235,6 +330,65 @@ export class SecureStorefrontSDK {
     return this.security.getCartToken();
   }
 
+  /**
+   * Current client-side rate limit budget (null unless `rateLimit` is configured)
+   */
+  getRateLimit(): RateLimitStatus | null {
+    return this.http.getRateLimitStatus();
+  }
+
+  /**
+   * Circuit breaker (null unless `circuitBreaker` is configured)
+   */
+  getCircuitBreaker(): CircuitBreaker | null {
+    return this.http.getCircuitBreaker();
+  }
+
+  /**
+   * Offline mutation queue (null unless `offline` is configured)
+   */
+  getOfflineQueue(): OfflineQueue<Cart> | null {
+    return this.offlineQueue || null;
+  }
+
+  /**
+   * Wrap every method of a namespace in an operation span (e.g. `storefront.checkout.create`)
+   */
+  private instrument<T extends Record<string, (...args: any[]) => Promise<any>>>(namespace: string, methods: T): T {
+    const telemetry = this.telemetry;
+    if (!telemetry) {
+      return methods;
+    }
+
+    const instrumented: Record<string, (...args: any[]) => Promise<any>> = {};
+
+    for (const [name, method] of Object.entries(methods)) {
+      const operation = `${namespace}.${name}`;
+
+      instrumented[name] = async (...args: any[]) => {
+        const started = Date.now();
+        let errorType: string | undefined;
+
+        try {
+          return await telemetry.trace(`storefront.${operation}`, {
+            kind: SpanKind.INTERNAL,
+            attributes: { 'storefront.operation': operation }
+          }, () => method(...args));
+        } catch (error: any) {
+          errorType = error?.name || 'Error';
+          throw error;
+        } finally {
+          telemetry.recordDuration('storefront.operation.duration', 'Duration of SDK operations', Date.now() - started, {
+            'storefront.operation': operation,
+            'error.type': errorType
+          });
+        }
+      };
+    }
+
+    return instrumented as T;
+  }
+
   /**
    * Create singleton instance (recommended for most use cases)
    */
@@ -252,40 +406,40 @@ export class SecureStorefrontSDK {
    * Store API
    */
   get store() {
-    return {
-      get: async (params?: { include?: string[] }): Promise<Store> => {
+    return this.instrument('store', {
+      get: async (params?: { include?: string[] }, options?: RequestOptions): Promise<Store> => {
         const response = await this.http.get<ApiResponse<Store>>('/store', {
           'X-Include': params?.include?.join(',') || ''
-        });
-        return (response.data as any).data || response.data;
+        }, undefined, options);
+        return this.validate(modelSchemas.store, unwrap(response.data, response));
       },
 
-      getCurrencies: async (): Promise<Array<{ code: string; symbol: string; name: string }>> => {
-        const response = await this.http.get<ApiResponse<any>>('/store/currencies');
-        return (response.data as any).data || response.data;
+      getCurrencies: async (options?: RequestOptions): Promise<Array<{ code: string; symbol: string; name: string }>> => {
+        const response = await this.http.get<ApiResponse<any>>('/store/currencies', undefined, undefined, options);
+        return unwrap(response.data, response);
       },
 
-      changeCurrency: async (currency: string): Promise<void> => {
-        await this.http.post('/store/currency', { symbol: currency });
+      changeCurrency: async (currency: string, options?: RequestOptions): Promise<void> => {
+        await this.http.post('/store/currency', { symbol: currency }, undefined, options);
       },
 
-      getSettings: async (): Promise<Record<string, any>> => {
-        const response = await this.http.get<ApiResponse<any>>('/store/settings');
-        return (response.data as any).data || response.data;
+      getSettings: async (options?: RequestOptions): Promise<Record<string, any>> => {
+        const response = await this.http.get<ApiResponse<any>>('/store/settings', undefined, undefined, options);
+        return unwrap(response.data, response);
       },
 
-      getFeatures: async (): Promise<Array<{
+      getFeatures: async (options?: RequestOptions): Promise<Array<{
         id: number;
         title: string;
         description: string;
         icon: string;
         sort_order: number;
       }>> => {
-        const response = await this.http.get<ApiResponse<any>>('/store/features');
-        return (response.data as any).data || response.data;
+        const response = await this.http.get<ApiResponse<any>>('/store/features', undefined, undefined, options);
+        return unwrap(response.data, response);
       },
 
-      getBanners: async (): Promise<Array<{
+      getBanners: async (options?: RequestOptions): Promise<Array<{
         id: number;
         title: string;
         description: string;
@@ -293,101 +447,101 @@ export class SecureStorefrontSDK {
         link_url: string;
         sort_order: number;
       }>> => {
-        const response = await this.http.get<ApiResponse<any>>('/store/banners');
-        return (response.data as any).data || response.data;
+        const response = await this.http.get<ApiResponse<any>>('/store/banners', undefined, undefined, options);
+        return unwrap(response.data, response);
       }
-    };
+    });
   }
 
   /**
    * Products API with Firebase/Supabase-style query builder
    */
   get products() {
-    return {
-      // Firebase/Supabase-style method chaining
-      where: (field: string, operator: '=' | '!=' | '>' | '<' | '>=' | '<=' | 'like', value: any) => ({
-        orderBy: (orderField: string, direction: 'asc' | 'desc' = 'asc') => ({
-          limit: (count: number) => ({
-            get: async (): Promise<Product[]> => {
-              const params = this.buildProductParams({ field, operator, value }, orderField, direction, count);
-              const response = await this.http.get<ApiResponse<Product[]>>('/products', params);
-              return (response.data as any).data || response.data;
-            }
-          }),
-          get: async (): Promise<Product[]> => {
-            const params = this.buildProductParams({ field, operator, value }, orderField, direction);
-            const response = await this.http.get<ApiResponse<Product[]>>('/products', params);
-            return (response.data as any).data || response.data;
-          }
-        }),
-        get: async (): Promise<Product[]> => {
-          const params = this.buildProductParams({ field, operator, value });
-          const response = await this.http.get<ApiResponse<Product[]>>('/products', params);
-          return (response.data as any).data || response.data;
-        }
-      }),
-
-      // Direct methods
+    const methods = this.instrument('products', {
       getAll: async (params?: {
         page?: number;
         per_page?: number;
         search?: string;
         category?: string;
         sort?: string;
-      }): Promise<{ data: Product[]; pagination?: any }> => {
-        const response = await this.http.get<ApiResponse<Product[]>>('/products', params);
-        return {
-          data: response.data.data,
-          pagination: response.data.pagination
-        };
+      }, options?: RequestOptions): Promise<Paginated<Product>> => {
+        const response = await this.http.get<ApiResponse<Product[]>>('/products', params, undefined, options);
+        return this.paginated(response, modelSchemas.productList);
       },
 
-      getById: async (id: number): Promise<Product> => {
-        const response = await this.http.get<ApiResponse<Product>>(`/products/${id}`);
-        return (response.data as any).data || response.data;
+      getById: async (id: number, options?: RequestOptions): Promise<Product> => {
+        const response = await this.http.get<ApiResponse<Product>>(`/products/${id}`, undefined, undefined, options);
+        return this.validate(modelSchemas.product, unwrap(response.data, response));
       },
 
-      getBySlug: async (slug: string): Promise<Product> => {
-        const response = await this.http.get<ApiResponse<Product>>(`/products/${slug}`);
-        return (response.data as any).data || response.data;
+      getBySlug: async (slug: string, options?: RequestOptions): Promise<Product> => {
+        const response = await this.http.get<ApiResponse<Product>>(`/products/${slug}`, undefined, undefined, options);
+        return this.validate(modelSchemas.product, unwrap(response.data, response));
       },
 
       search: async (query: string, options?: {
         category?: string;
         price_min?: number;
         price_max?: number;
+        page?: number;
         per_page?: number;
-      }): Promise<{ data: Product[]; pagination?: any }> => {
+      }, requestOptions?: RequestOptions): Promise<Paginated<Product>> => {
         const response = await this.http.get<ApiResponse<Product[]>>('/products/search', {
           q: query,
           ...options
-        });
-        return {
-          data: response.data.data,
-          pagination: response.data.pagination
-        };
+        }, undefined, requestOptions);
+        return this.paginated(response, modelSchemas.productList);
       },
 
-      getFeatured: async (limit = 8): Promise<Product[]> => {
-        const response = await this.http.get<ApiResponse<Product[]>>('/featured-products', { limit });
-        return (response.data as any).data || response.data;
+      getFeatured: async (limit = 8, options?: RequestOptions): Promise<Product[]> => {
+        const response = await this.http.get<ApiResponse<Product[]>>('/featured-products', { limit }, undefined, options);
+        return this.validate(modelSchemas.productList, unwrap(response.data, response));
       },
 
-      getRelated: async (productId: number, limit = 4): Promise<Product[]> => {
-        const response = await this.http.get<ApiResponse<Product[]>>(`/products/${productId}/related`, { limit });
-        return (response.data as any).data || response.data;
+      getRelated: async (productId: number, limit = 4, options?: RequestOptions): Promise<Product[]> => {
+        const response = await this.http.get<ApiResponse<Product[]>>(`/products/${productId}/related`, { limit }, undefined, options);
+        return this.validate(modelSchemas.productList, unwrap(response.data, response));
       },
 
-      getReviews: async (productId: number, params?: { page?: number; per_page?: number }): Promise<{
-        data: Review[];
-        pagination?: any;
-      }> => {
-        const response = await this.http.get<ApiResponse<Review[]>>(`/products/${productId}/reviews`, params);
-        return {
-          data: response.data.data,
-          pagination: response.data.pagination
-        };
+      getReviews: async (productId: number, params?: { page?: number; per_page?: number }, options?: RequestOptions): Promise<Paginated<Review>> => {
+        const response = await this.http.get<ApiResponse<Review[]>>(`/products/${productId}/reviews`, params, undefined, options);
+        return this.paginated(response, modelSchemas.reviewList);
       }
+    });
+
+    return {
+      // Firebase/Supabase-style method chaining (its requests are traced at the HTTP level)
+      where: (field: string, operator: '=' | '!=' | '>' | '<' | '>=' | '<=' | 'like', value: any) => ({
+        orderBy: (orderField: string, direction: 'asc' | 'desc' = 'asc') => ({
+          limit: (count: number) => ({
+            get: async (options?: RequestOptions): Promise<Product[]> => {
+              const params = this.buildProductParams({ field, operator, value }, orderField, direction, count);
+              const response = await this.http.get<ApiResponse<Product[]>>('/products', params, undefined, options);
+              return this.validate(modelSchemas.productList, unwrap(response.data, response));
+            }
+          }),
+          get: async (options?: RequestOptions): Promise<Product[]> => {
+            const params = this.buildProductParams({ field, operator, value }, orderField, direction);
+            const response = await this.http.get<ApiResponse<Product[]>>('/products', params, undefined, options);
+            return this.validate(modelSchemas.productList, unwrap(response.data, response));
+          }
+        }),
+        get: async (options?: RequestOptions): Promise<Product[]> => {
+          const params = this.buildProductParams({ field, operator, value });
+          const response = await this.http.get<ApiResponse<Product[]>>('/products', params, undefined, options);
+          return this.validate(modelSchemas.productList, unwrap(response.data, response));
+        }
+      }),
+
+      // Direct methods
+      ...methods,
+
+      // Async iterators over every page
+      iterate: (params?: Parameters<typeof methods.getAll>[0], options?: IterateOptions): PageIterator<Product> =>
+        this.pageIterator(methods.getAll, params, options),
+
+      iterateSearch: (query: string, params?: Parameters<typeof methods.search>[1], options?: IterateOptions): PageIterator<Product> =>
+        this.pageIterator((page, requestOptions) => methods.search(query, page, requestOptions), params, options)
     };
   }
 
@@ -395,33 +549,37 @@ export class SecureStorefrontSDK {
    * Categories API
    */
   get categories() {
-    return {
-      getAll: async (): Promise<Category[]> => {
-        const response = await this.http.get<ApiResponse<Category[]>>('/categories');
-        return (response.data as any).data || response.data;
+    const methods = this.instrument('categories', {
+      getAll: async (options?: RequestOptions): Promise<Category[]> => {
+        const response = await this.http.get<ApiResponse<Category[]>>('/categories', undefined, undefined, options);
+        return this.validate(modelSchemas.categoryList, unwrap(response.data, response));
       },
 
-      getById: async (id: number): Promise<Category> => {
-        const response = await this.http.get<ApiResponse<Category>>(`/categories/${id}`);
-        return (response.data as any).data || response.data;
+      getById: async (id: number, options?: RequestOptions): Promise<Category> => {
+        const response = await this.http.get<ApiResponse<Category>>(`/categories/${id}`, undefined, undefined, options);
+        return this.validate(modelSchemas.category, unwrap(response.data, response));
       },
 
-      getBySlug: async (slug: string): Promise<Category> => {
-        const response = await this.http.get<ApiResponse<Category>>(`/categories/${slug}`);
-        return (response.data as any).data || response.data;
+      getBySlug: async (slug: string, options?: RequestOptions): Promise<Category> => {
+        const response = await this.http.get<ApiResponse<Category>>(`/categories/${slug}`, undefined, undefined, options);
+        return this.validate(modelSchemas.category, unwrap(response.data, response));
       },
 
       getProducts: async (slug: string, params?: {
         page?: number;
         per_page?: number;
         sort?: string;
-      }): Promise<{ data: Product[]; pagination?: any }> => {
-        const response = await this.http.get<ApiResponse<Product[]>>(`/categories/${slug}/products`, params);
-        return {
-          data: response.data.data,
-          pagination: response.data.pagination
-        };
+      }, options?: RequestOptions): Promise<Paginated<Product>> => {
+        const response = await this.http.get<ApiResponse<Product[]>>(`/categories/${slug}/products`, params, undefined, options);
+        return this.paginated(response, modelSchemas.productList);
       }
+    });
+
+    return {
+      ...methods,
+
+      iterateProducts: (slug: string, params?: Parameters<typeof methods.getProducts>[1], options?: IterateOptions): PageIterator<Product> =>
+        this.pageIterator((page, requestOptions) => methods.getProducts(slug, page, requestOptions), params, options)
     };
   }
 
@@ -430,129 +588,239 @@ export class SecureStorefrontSDK {
    */
   private handleCartResponse(responseData: any): any {
     if (!responseData) {
-      throw new Error('No response data from server.');
+      throw new StorefrontError('No response data from server.');
     }
     // If the response is an error object from the backend, propagate the message
     if (responseData.success === false && responseData.message) {
-      throw new Error(responseData.message);
+      throw new StorefrontError(responseData.message);
     }
     // Extract cart_token from response and store it
     if (responseData.cart_token) {
       this.setCartToken(responseData.cart_token);
     }
-    return responseData;
+    return this.validate(modelSchemas.cart, responseData);
+  }
+
+  /**
+   * Iterate a paginated list method, starting at `params.page`
+   */
+  private pageIterator<P extends { page?: number }, T>(
+    list: (params: P, options: RequestOptions) => Promise<Paginated<T>>,
+    params: P | undefined,
+    options: IterateOptions = {}
+  ): PageIterator<T> {
+    const { concurrency, signal, ...requestOptions } = options;
+
+    return createPageIterator(
+      (page, pageSignal) => list({ ...params, page } as P, { ...requestOptions, signal: pageSignal }),
+      { concurrency, startPage: params?.page, signal }
+    );
+  }
+
+  /**
+   * Unwrap a list response into a Paginated<T>, validating its items when a schema is given
+   */
+  private paginated<T>(response: HttpResponse, schema?: Schema<T[]>): Paginated<T> {
+    const page = paginate<T>(response.data, response);
+
+    if (schema) {
+      this.validate(schema, page.data);
+    }
+
+    return page;
+  }
+
+  /**
+   * Check response data against a model schema.
+   * Throws SchemaValidationError in strict mode, logs a warning in warn mode.
+   */
+  private validate<T>(schema: Schema<T>, data: unknown): T {
+    const mode = this.config.validation || (this.config.environment === 'development' ? 'strict' : 'warn');
+    if (mode === 'off') {
+      return data as T;
+    }
+
+    const issues = schema.validate(data);
+    if (issues.length > 0) {
+      const error = new SchemaValidationError(`Invalid ${schema.type} response: ${formatIssues(issues)}`, { issues });
+
+      if (mode === 'strict') {
+        throw error;
+      }
+      this.logger.warn(error.message, { issues });
+    }
+
+    return data as T;
+  }
+
+  /**
+   * Send a cart/wishlist mutation, queueing it for replay when the network is unavailable or the circuit is open.
+   * Queued mutations reject with OfflineQueuedError.
+   */
+  private async queueable<T>(
+    scope: string,
+    method: HttpMethod,
+    url: string,
+    data: any,
+    options: RequestOptions | undefined,
+    send: (options: RequestOptions) => Promise<T>
+  ): Promise<T> {
+    // Files can't be persisted, so uploads are never queued
+    if (!this.offlineQueue || isFormData(data) || hasFiles(data)) {
+      return send(options || {});
+    }
+
+    const idempotencyKey = options?.idempotencyKey || this.security.generateSecureRandom(16);
+    const mutation = { scope, method, url, data, idempotencyKey, queuedAt: Date.now() };
+
+    // Keep mutations in order: flush older queued ones first
+    if ((await this.offlineQueue.pending()).length > 0) {
+      await this.offlineQueue.replay();
+
+      if ((await this.offlineQueue.pending()).length > 0) {
+        return this.enqueueMutation(mutation, new NetworkError('Offline queue is not drained yet'));
+      }
+    }
+
+    // The key identifies the queued mutation; it only goes out with the first attempt when the caller asked for keys
+    const keyed = options?.idempotencyKey || this.config.idempotencyKeys;
+
+    try {
+      return await send(keyed ? { ...options, idempotencyKey } : options || {});
+    } catch (error) {
+      if ((error instanceof NetworkError || error instanceof CircuitOpenError) && !options?.signal?.aborted) {
+        return this.enqueueMutation(mutation, error);
+      }
+      throw error;
+    }
+  }
+
+  private async enqueueMutation(mutation: QueuedMutation, error: NetworkError | CircuitOpenError): Promise<never> {
+    if (!(await this.offlineQueue!.enqueue(mutation, error))) {
+      throw error;
+    }
+
+    this.log('Mutation queued for replay', { method: mutation.method, url: mutation.url });
+    throw new OfflineQueuedError('Network unavailable, mutation queued for replay', {
+      cause: error,
+      idempotencyKey: mutation.idempotencyKey
+    });
+  }
+
+  /**
+   * Adopt the cart returned by the last replayed cart mutation
+   */
+  private reconcileCart(replayed: ReplayedMutation[]): Cart | undefined {
+    const last = replayed.filter(r => r.mutation.scope === 'cart').pop();
+    return last ? this.handleCartResponse(unwrap(last.response.data, last.response)) : undefined;
   }
 
   /**
    * Cart API
    */
   get cart() {
-    return {
-      get: async (): Promise<Cart> => {
-        const response = await this.http.get<ApiResponse<Cart>>('/cart');
-        return this.handleCartResponse(response.data.data);
+    return this.instrument('cart', {
+      get: async (options?: RequestOptions): Promise<Cart> => {
+        const response = await this.http.get<ApiResponse<Cart>>('/cart', undefined, undefined, options);
+        return this.handleCartResponse(unwrap(response.data, response));
       },
 
       addItem: async (productId: number, quantity = 1, options?: {
-        fields?: Record<string, any>;
+        fields?: Record<string, any>; // File-type custom fields take a Blob/File (sent as multipart)
         notice?: string;
-      }): Promise<Cart> => {
-        const response = await this.http.post<ApiResponse<Cart>>('/cart/add', {
-          product_id: productId,
-          qty: quantity,
-          ...options
+      }, requestOptions?: RequestOptions): Promise<Cart> => {
+        const data = { product_id: productId, qty: quantity, ...options };
+        return this.queueable('cart', 'POST', '/cart/add', data, requestOptions, async (opts) => {
+          const response = await this.http.post<ApiResponse<Cart>>('/cart/add', data, undefined, opts);
+          return this.handleCartResponse(unwrap(response.data, response));
         });
-        return this.handleCartResponse(response.data.data);
       },
 
-      updateItem: async (itemId: string, quantity: number): Promise<Cart> => {
-        const response = await this.http.patch<ApiResponse<Cart>>(`/cart/items/${itemId}`, {
-          quantity
+      updateItem: async (itemId: string, quantity: number, options?: RequestOptions): Promise<Cart> => {
+        const url = `/cart/items/${itemId}`;
+        return this.queueable('cart', 'PATCH', url, { quantity }, options, async (opts) => {
+          const response = await this.http.patch<ApiResponse<Cart>>(url, { quantity }, undefined, opts);
+          return this.handleCartResponse(unwrap(response.data, response));
         });
-        return this.handleCartResponse(response.data.data);
       },
 
-      removeItem: async (itemId: string): Promise<Cart> => {
-        const response = await this.http.delete<ApiResponse<Cart>>(`/cart/items/${itemId}`);
-        return this.handleCartResponse(response.data.data);
+      removeItem: async (itemId: string, options?: RequestOptions): Promise<Cart> => {
+        const url = `/cart/items/${itemId}`;
+        return this.queueable('cart', 'DELETE', url, undefined, options, async (opts) => {
+          const response = await this.http.delete<ApiResponse<Cart>>(url, undefined, opts);
+          return this.handleCartResponse(unwrap(response.data, response));
+        });
       },
 
-      clear: async (): Promise<void> => {
-        await this.http.delete('/cart/clear');
+      clear: async (options?: RequestOptions): Promise<void> => {
+        await this.http.delete('/cart/clear', undefined, options);
         // Clear the stored cart token when cart is cleared
         this.setCartToken(null);
       },
 
-      getCount: async (): Promise<number> => {
-        const response = await this.http.get<ApiResponse<{ count: number; cart_token?: string }>>('/cart/count');
+      getCount: async (options?: RequestOptions): Promise<number> => {
+        const response = await this.http.get<ApiResponse<{ count: number; cart_token?: string }>>('/cart/count', undefined, undefined, options);
+        const data = unwrap<{ count: number; cart_token?: string }>(response.data, response);
         // Handle cart token from count response as well
-        if (response.data.data.cart_token) {
-          this.setCartToken(response.data.data.cart_token);
+        if (data.cart_token) {
+          this.setCartToken(data.cart_token);
         }
-        return response.data.data.count;
+        return data.count;
       },
 
-      applyCoupon: async (code: string): Promise<Cart> => {
-        const response = await this.http.post<ApiResponse<Cart>>('/cart/coupon', { coupon: code });
-        return this.handleCartResponse(response.data.data);
+      applyCoupon: async (code: string, options?: RequestOptions): Promise<Cart> => {
+        const response = await this.http.post<ApiResponse<Cart>>('/cart/coupon', { coupon: code }, undefined, options);
+        return this.handleCartResponse(unwrap(response.data, response));
       },
 
-      removeCoupon: async (): Promise<Cart> => {
-        const response = await this.http.delete<ApiResponse<Cart>>('/cart/coupon');
-        return this.handleCartResponse(response.data.data);
+      removeCoupon: async (options?: RequestOptions): Promise<Cart> => {
+        const response = await this.http.delete<ApiResponse<Cart>>('/cart/coupon', undefined, options);
+        return this.handleCartResponse(unwrap(response.data, response));
       },
 
-      validate: async (): Promise<{ valid: boolean; errors?: string[] }> => {
-        const response = await this.http.get<ApiResponse<any>>('/cart/validate');
-        return (response.data as any).data || response.data;
+      validate: async (options?: RequestOptions): Promise<{ valid: boolean; errors?: string[] }> => {
+        const response = await this.http.get<ApiResponse<any>>('/cart/validate', undefined, undefined, options);
+        return unwrap(response.data, response);
       },
 
-      getSummary: async (): Promise<{
+      getSummary: async (options?: RequestOptions): Promise<{
         subtotal: number;
         tax: number;
         shipping: number;
         discount: number;
         total: number;
       }> => {
-        const response = await this.http.get<ApiResponse<any>>('/cart/summary');
-        return (response.data as any).data || response.data;
+        const response = await this.http.get<ApiResponse<any>>('/cart/summary', undefined, undefined, options);
+        return unwrap(response.data, response);
       }
-    };
+    });
   }
 
   /**
    * Authentication API (client-side compatible)
    */
   get auth() {
-    return {
-      startPhoneAuth: async (phone: string, countryCode: string): Promise<{ session_token: string }> => {
+    return this.instrument('auth', {
+      startPhoneAuth: async (phone: string, countryCode: string, options?: RequestOptions): Promise<{ session_token: string }> => {
         const response = await this.http.post<ApiResponse<any>>('/auth/phone/start', {
           phone,
           country_code: countryCode
-        });
-        console.log('SecureSDK: startPhoneAuth full response:', response);
-        console.log('SecureSDK: response.data:', response.data);
-        console.log('SecureSDK: response.data.data:', response.data.data);
+        }, undefined, options);
 
         // Laravel API returns: { success: true, data: { session_token: "..." }, message: "..." }
-        // We need to extract the session_token from response.data.data
-        const responseData = response.data as any;
-
-        console.log('SecureSDK: responseData keys:', Object.keys(responseData));
-        console.log('SecureSDK: responseData.data:', responseData.data);
-        console.log('SecureSDK: responseData.data keys:', responseData.data ? Object.keys(responseData.data) : 'undefined');
-
-        // Fix: Return the session_token directly from the Laravel response structure
-        if (responseData.data && responseData.data.session_token) {
-          console.log('SecureSDK: Found session_token:', responseData.data.session_token);
-          return { session_token: responseData.data.session_token };
-        } else {
-          console.error('SecureSDK: Could not find session_token in response');
-          return responseData;
+        const data = unwrap<{ session_token?: string } | null>(response.data, response);
+        this.logger.debug('Phone auth started', { status: response.status, fields: Object.keys(data || {}) });
+
+        if (!data?.session_token) {
+          // Unexpected shape: hand back the body as-is, like earlier releases
+          this.logger.error('Phone auth response has no session_token', { keys: Object.keys(response.data || {}) });
+          return response.data as unknown as { session_token: string };
         }
+
+        return { session_token: data.session_token };
       },
 
-      verifyOTP: async (otp: string, sessionToken: string): Promise<{
+      verifyOTP: async (otp: string, sessionToken: string, options?: RequestOptions): Promise<{
         token: string;
         customer: Customer;
       }> => {
@@ -560,19 +828,19 @@ export class SecureStorefrontSDK {
           code: otp,
           session_token: sessionToken
         };
-        console.log('SecureSDK: verifyOTP request body:', requestBody);
-        const response = await this.http.post<ApiResponse<any>>('/auth/phone/verify', requestBody);
-        console.log('🔍 SecureSDK: Raw API response before sanitization:', JSON.stringify(response.data, null, 2));
-        console.log('🔍 SecureSDK: Extracted data (response.data.data):', JSON.stringify(response.data.data, null, 2));
-        return (response.data as any).data || response.data;
+        this.logger.debug('Verifying OTP', { fields: Object.keys(requestBody) });
+        const response = await this.http.post<ApiResponse<any>>('/auth/phone/verify', requestBody, undefined, options);
+        const result = unwrap(response.data, response);
+        this.logger.debug('OTP verified', { status: response.status, fields: Object.keys(result || {}) });
+        return this.validate(modelSchemas.authResult, result);
       },
 
-      resendOTP: async (sessionToken: string): Promise<void> => {
+      resendOTP: async (sessionToken: string, options?: RequestOptions): Promise<void> => {
         const requestBody = {
           session_token: sessionToken
         };
-        console.log('SecureSDK: resendOTP request body:', requestBody);
-        await this.http.post<ApiResponse<any>>('/auth/phone/resend', requestBody);
+        this.logger.debug('Resending OTP', { fields: Object.keys(requestBody) });
+        await this.http.post<ApiResponse<any>>('/auth/phone/resend', requestBody, undefined, options);
       },
 
       completeRegistration: async (data: {
@@ -580,77 +848,102 @@ export class SecureStorefrontSDK {
         lastName: string;
         email: string;
         sessionToken: string;
-      }): Promise<{ token: string; customer: Customer }> => {
+      }, options?: RequestOptions): Promise<{ token: string; customer: Customer }> => {
         const response = await this.http.post<ApiResponse<any>>('/auth/complete', {
           firstName: data.firstName,
           lastName: data.lastName,
           email: data.email,
           session_token: data.sessionToken
-        });
-        return (response.data as any).data || response.data;
+        }, undefined, options);
+        return this.validate(modelSchemas.authResult, unwrap(response.data, response));
       },
 
-      getProfile: async (): Promise<Customer> => {
-        const response = await this.http.get<ApiResponse<Customer>>('/customer/profile');
-        return (response.data as any).data || response.data;
+      getProfile: async (options?: RequestOptions): Promise<Customer> => {
+        const response = await this.http.get<ApiResponse<Customer>>('/customer/profile', undefined, undefined, options);
+        return this.validate(modelSchemas.customer, unwrap(response.data, response));
       },
 
-      updateProfile: async (data: Partial<Customer>): Promise<Customer> => {
-        const response = await this.http.patch<ApiResponse<Customer>>('/customer/profile', data);
-        return (response.data as any).data || response.data;
+      updateProfile: async (data: Partial<Customer> & { avatar?: Blob }, options?: RequestOptions): Promise<Customer> => {
+        const response = await this.http.patch<ApiResponse<Customer>>('/customer/profile', data, undefined, options);
+        return this.validate(modelSchemas.customer, unwrap(response.data, response));
       },
 
-      logout: async (): Promise<void> => {
-        await this.http.post('/customer/logout');
+      logout: async (options?: RequestOptions): Promise<void> => {
+        await this.http.post('/customer/logout', undefined, undefined, options);
       }
-    };
+    });
   }
 
   /**
    * Orders API (requires authentication)
    */
   get orders() {
-    return {
-      getAll: async (params?: { page?: number; per_page?: number }): Promise<{
-        data: Order[];
-        pagination?: any;
-      }> => {
-        const response = await this.http.get<ApiResponse<Order[]>>('/customer/orders', params);
-        return {
-          data: response.data.data,
-          pagination: response.data.pagination
-        };
+    const methods = this.instrument('orders', {
+      getAll: async (params?: { page?: number; per_page?: number }, options?: RequestOptions): Promise<Paginated<Order>> => {
+        const response = await this.http.get<ApiResponse<Order[]>>('/customer/orders', params, undefined, options);
+        return this.paginated(response, modelSchemas.orderList);
       },
 
-      getById: async (id: number): Promise<Order> => {
-        const response = await this.http.get<ApiResponse<Order>>(`/customer/orders/${id}`);
-        return (response.data as any).data || response.data;
+      getById: async (id: number, options?: RequestOptions): Promise<Order> => {
+        const response = await this.http.get<ApiResponse<Order>>(`/customer/orders/${id}`, undefined, undefined, options);
+        return this.validate(modelSchemas.order, unwrap(response.data, response));
       },
 
-      getCourses: async (): Promise<any[]> => {
-        const response = await this.http.get<ApiResponse<any[]>>('/customer/courses');
-        return (response.data as any).data || response.data;
+      getCourses: async (options?: RequestOptions): Promise<any[]> => {
+        const response = await this.http.get<ApiResponse<any[]>>('/customer/courses', undefined, undefined, options);
+        return unwrap(response.data, response);
       },
 
-      getSubscriptions: async (): Promise<any[]> => {
-        const response = await this.http.get<ApiResponse<any[]>>('/customer/subscriptions');
-        return (response.data as any).data || response.data;
+      getSubscriptions: async (options?: RequestOptions): Promise<any[]> => {
+        const response = await this.http.get<ApiResponse<any[]>>('/customer/subscriptions', undefined, undefined, options);
+        return unwrap(response.data, response);
       },
 
       // Add submitReview for order reviews
-      submitReview: async (orderId: number, reviewData: any): Promise<any> => {
-        const response = await this.http.post<ApiResponse<any>>(`/orders/${orderId}/review`, reviewData);
-        return (response.data as any).data || response.data;
+      submitReview: async (orderId: number, reviewData: any, options?: RequestOptions): Promise<any> => {
+        const response = await this.http.post<ApiResponse<any>>(`/orders/${orderId}/review`, reviewData, undefined, options);
+        return unwrap(response.data, response);
       }
+    });
+
+    return {
+      ...methods,
+
+      iterate: (params?: Parameters<typeof methods.getAll>[0], options?: IterateOptions): PageIterator<Order> =>
+        this.pageIterator(methods.getAll, params, options)
     };
   }
 
+  /**
+   * Downloads API (purchased files, invoices and signed links)
+   */
+  get downloads() {
+    return this.instrument('downloads', {
+      get: async (path: string, params?: Record<string, any>, options?: DownloadRequestOptions): Promise<Download> => {
+        return this.http.download(path, params, undefined, options);
+      },
+
+      getFile: async (orderId: number, itemId: number, options?: DownloadRequestOptions): Promise<Download> => {
+        return this.http.download(`/customer/orders/${orderId}/items/${itemId}/download`, undefined, undefined, options);
+      },
+
+      getInvoice: async (orderId: number, options?: DownloadRequestOptions): Promise<Download> => {
+        return this.http.download(`/customer/orders/${orderId}/invoice`, undefined, undefined, options);
+      },
+
+      // Server-side only: the link carries an HMAC signature instead of the secret key
+      signUrl: async (path: string, params?: Record<string, any>, expiresIn = 300): Promise<string> => {
+        return this.http.signUrl(path, params, expiresIn);
+      }
+    });
+  }
+
   /**
    * Checkout API
    */
   get checkout() {
-    return {
-      create: async (): Promise<{
+    return this.instrument('checkout', {
+      create: async (options?: RequestOptions): Promise<{
         type: 'free_order' | 'payment_required';
         checkout_id?: string;
         checkout_url?: string;
@@ -658,83 +951,94 @@ export class SecureStorefrontSDK {
         amount?: number;
         redirect_url?: string;
       }> => {
-        const response = await this.http.post<ApiResponse<any>>('/checkout');
-        return (response.data as any).data || response.data;
+        const response = await this.http.post<ApiResponse<any>>('/checkout', undefined, undefined, options);
+        return unwrap(response.data, response);
       },
 
-      getResult: async (sessionId: string): Promise<{
+      getResult: async (sessionId: string, options?: RequestOptions): Promise<{
         status: string;
         order?: Order;
       }> => {
-        const response = await this.http.get<ApiResponse<any>>(`/checkout/${sessionId}/result`);
-        return (response.data as any).data || response.data;
+        const response = await this.http.get<ApiResponse<any>>(`/checkout/${sessionId}/result`, undefined, undefined, options);
+        return unwrap(response.data, response);
       }
-    };
+    });
   }
 
   /**
    * Wishlist API (requires authentication)
    */
   get wishlist() {
-    return {
-      get: async (): Promise<{ items: Product[]; count: number }> => {
-        const response = await this.http.get<ApiResponse<any>>('/wishlist');
-        return (response.data as any).data || response.data;
+    return this.instrument('wishlist', {
+      get: async (options?: RequestOptions): Promise<{ items: Product[]; count: number }> => {
+        const response = await this.http.get<ApiResponse<any>>('/wishlist', undefined, undefined, options);
+        return this.validate(modelSchemas.wishlist, unwrap(response.data, response));
       },
 
-      addItem: async (productId: number): Promise<void> => {
-        await this.http.post('/wishlist', { product_id: productId });
+      addItem: async (productId: number, options?: RequestOptions): Promise<void> => {
+        const data = { product_id: productId };
+        await this.queueable('wishlist', 'POST', '/wishlist', data, options, async (opts) => {
+          await this.http.post('/wishlist', data, undefined, opts);
+        });
       },
 
-      removeItem: async (productId: number): Promise<void> => {
-        await this.http.delete(`/wishlist/${productId}`);
+      removeItem: async (productId: number, options?: RequestOptions): Promise<void> => {
+        const url = `/wishlist/${productId}`;
+        await this.queueable('wishlist', 'DELETE', url, undefined, options, async (opts) => {
+          await this.http.delete(url, undefined, opts);
+        });
       },
 
-      check: async (productId: number): Promise<{ in_wishlist: boolean }> => {
-        const response = await this.http.get<ApiResponse<any>>(`/wishlist/check/${productId}`);
-        return (response.data as any).data || response.data;
+      check: async (productId: number, options?: RequestOptions): Promise<{ in_wishlist: boolean }> => {
+        const response = await this.http.get<ApiResponse<any>>(`/wishlist/check/${productId}`, undefined, undefined, options);
+        return unwrap(response.data, response);
       },
 
-      clear: async (): Promise<void> => {
-        await this.http.delete('/wishlist/clear');
+      clear: async (options?: RequestOptions): Promise<void> => {
+        await this.http.delete('/wishlist/clear', undefined, options);
       }
-    };
+    });
   }
 
   /**
    * Reviews API
    */
   get reviews() {
-    return {
+    const methods = this.instrument('reviews', {
       getAll: async (params?: {
         page?: number;
         per_page?: number;
         rating?: number;
-      }): Promise<{ data: Review[]; pagination?: any }> => {
-        const response = await this.http.get<ApiResponse<Review[]>>('/reviews', params);
-        return {
-          data: response.data.data,
-          pagination: response.data.pagination
-        };
+      }, options?: RequestOptions): Promise<Paginated<Review>> => {
+        const response = await this.http.get<ApiResponse<Review[]>>('/reviews', params, undefined, options);
+        return this.paginated(response, modelSchemas.reviewList);
       },
 
-      getRecent: async (limit = 6): Promise<Review[]> => {
-        const response = await this.http.get<ApiResponse<Review[]>>('/reviews/recent', { limit });
-        return (response.data as any).data || response.data;
+      getRecent: async (limit = 6, options?: RequestOptions): Promise<Review[]> => {
+        const response = await this.http.get<ApiResponse<Review[]>>('/reviews/recent', { limit }, undefined, options);
+        return this.validate(modelSchemas.reviewList, unwrap(response.data, response));
       },
 
       submit: async (productId: number, data: {
         rating: number;
         comment: string;
-      }): Promise<Review> => {
-        const response = await this.http.post<ApiResponse<Review>>(`/products/${productId}/reviews`, data);
-        return (response.data as any).data || response.data;
+        photos?: Blob[]; // Sent as multipart
+      }, options?: RequestOptions): Promise<Review> => {
+        const response = await this.http.post<ApiResponse<Review>>(`/products/${productId}/reviews`, data, undefined, options);
+        return this.validate(modelSchemas.review, unwrap(response.data, response));
       },
 
-      getStats: async (): Promise<any> => {
-        const response = await this.http.get<ApiResponse<any>>('/reviews/stats');
-        return (response.data as any).data || response.data;
+      getStats: async (options?: RequestOptions): Promise<any> => {
+        const response = await this.http.get<ApiResponse<any>>('/reviews/stats', undefined, undefined, options);
+        return unwrap(response.data, response);
       }
+    });
+
+    return {
+      ...methods,
+
+      iterate: (params?: Parameters<typeof methods.getAll>[0], options?: IterateOptions): PageIterator<Review> =>
+        this.pageIterator(methods.getAll, params, options)
     };
   }
 
@@ -742,27 +1046,31 @@ export class SecureStorefrontSDK {
    * Components API (for homepage content)
    */
   get components() {
-    return {
-      getAll: async (): Promise<any[]> => {
-        const response = await this.http.get<ApiResponse<any[]>>('/components');
-        return (response.data as any).data || response.data;
+    const methods = this.instrument('components', {
+      getAll: async (options?: RequestOptions): Promise<any[]> => {
+        const response = await this.http.get<ApiResponse<any[]>>('/components', undefined, undefined, options);
+        return unwrap(response.data, response);
       },
 
-      getById: async (id: number): Promise<any> => {
-        const response = await this.http.get<ApiResponse<any>>(`/components/${id}`);
-        return (response.data as any).data || response.data;
+      getById: async (id: number, options?: RequestOptions): Promise<any> => {
+        const response = await this.http.get<ApiResponse<any>>(`/components/${id}`, undefined, undefined, options);
+        return unwrap(response.data, response);
       },
 
       getProducts: async (id: number, params?: {
         page?: number;
         per_page?: number;
-      }): Promise<{ data: Product[]; pagination?: any }> => {
-        const response = await this.http.get<ApiResponse<Product[]>>(`/components/${id}/products`, params);
-        return {
-          data: response.data.data,
-          pagination: response.data.pagination
-        };
+      }, options?: RequestOptions): Promise<Paginated<Product>> => {
+        const response = await this.http.get<ApiResponse<Product[]>>(`/components/${id}/products`, params, undefined, options);
+        return this.paginated(response);
       }
+    });
+
+    return {
+      ...methods,
+
+      iterateProducts: (id: number, params?: Parameters<typeof methods.getProducts>[1], options?: IterateOptions): PageIterator<Product> =>
+        this.pageIterator((page, requestOptions) => methods.getProducts(id, page, requestOptions), params, options)
     };
   }
 
@@ -770,70 +1078,71 @@ export class SecureStorefrontSDK {
    * Pages API
    */
   get pages() {
-    return {
-      getAll: async (): Promise<Page[]> => {
-        const response = await this.http.get<ApiResponse<Page[]>>('/pages');
-        return (response.data as any).data || response.data;
+    return this.instrument('pages', {
+      getAll: async (options?: RequestOptions): Promise<Page[]> => {
+        const response = await this.http.get<ApiResponse<Page[]>>('/pages', undefined, undefined, options);
+        return this.validate(modelSchemas.pageList, unwrap(response.data, response));
       },
 
-      getByUrl: async (url: string): Promise<Page> => {
-        const response = await this.http.get<ApiResponse<Page>>(`/pages/${url}`);
-        return (response.data as any).data || response.data;
+      getByUrl: async (url: string, options?: RequestOptions): Promise<Page> => {
+        const response = await this.http.get<ApiResponse<Page>>(`/pages/${url}`, undefined, undefined, options);
+        return this.validate(modelSchemas.page, unwrap(response.data, response));
       }
-    };
+    });
   }
 
   /**
    * Courses API (requires authentication)
    */
   get courses() {
-    return {
-      getAll: async (params?: { page?: number; per_page?: number }): Promise<{
-        data: Course[];
-        pagination?: any;
-      }> => {
-        const response = await this.http.get<ApiResponse<Course[]>>('/courses', params);
-        return {
-          data: response.data.data,
-          pagination: response.data.pagination
-        };
+    const methods = this.instrument('courses', {
+      getAll: async (params?: { page?: number; per_page?: number }, options?: RequestOptions): Promise<Paginated<Course>> => {
+        const response = await this.http.get<ApiResponse<Course[]>>('/courses', params, undefined, options);
+        return this.paginated(response, modelSchemas.courseList);
       },
 
-      getById: async (id: number): Promise<Course> => {
-        const response = await this.http.get<ApiResponse<Course>>(`/courses/${id}`);
-        return (response.data as any).data || response.data;
+      getById: async (id: number, options?: RequestOptions): Promise<Course> => {
+        const response = await this.http.get<ApiResponse<Course>>(`/courses/${id}`, undefined, undefined, options);
+        return this.validate(modelSchemas.course, unwrap(response.data, response));
       },
 
-      getProgress: async (courseId: number): Promise<CourseProgress> => {
-        const response = await this.http.get<ApiResponse<CourseProgress>>(`/courses/${courseId}/progress`);
-        return (response.data as any).data || response.data;
+      getProgress: async (courseId: number, options?: RequestOptions): Promise<CourseProgress> => {
+        const response = await this.http.get<ApiResponse<CourseProgress>>(`/courses/${courseId}/progress`, undefined, undefined, options);
+        return this.validate(modelSchemas.courseProgress, unwrap(response.data, response));
       },
 
-      getModule: async (courseId: number, moduleId: number): Promise<CourseModule> => {
-        const response = await this.http.get<ApiResponse<CourseModule>>(`/courses/${courseId}/modules/${moduleId}`);
-        return (response.data as any).data || response.data;
+      getModule: async (courseId: number, moduleId: number, options?: RequestOptions): Promise<CourseModule> => {
+        const response = await this.http.get<ApiResponse<CourseModule>>(`/courses/${courseId}/modules/${moduleId}`, undefined, undefined, options);
+        return unwrap(response.data, response);
       },
 
-      completeModule: async (courseId: number, moduleId: number): Promise<{ success: boolean }> => {
-        const response = await this.http.post<ApiResponse<any>>(`/courses/${courseId}/modules/${moduleId}/complete`);
-        return (response.data as any).data || response.data;
+      completeModule: async (courseId: number, moduleId: number, options?: RequestOptions): Promise<{ success: boolean }> => {
+        const response = await this.http.post<ApiResponse<any>>(`/courses/${courseId}/modules/${moduleId}/complete`, undefined, undefined, options);
+        return unwrap(response.data, response);
       },
 
       // Legacy support for customer/courses endpoints
-      getCustomerCourses: async (): Promise<Course[]> => {
-        const response = await this.http.get<ApiResponse<Course[]>>('/customer/courses');
-        return (response.data as any).data || response.data;
+      getCustomerCourses: async (options?: RequestOptions): Promise<Course[]> => {
+        const response = await this.http.get<ApiResponse<Course[]>>('/customer/courses', undefined, undefined, options);
+        return unwrap(response.data, response);
       },
 
-      getCustomerCourse: async (id: number): Promise<Course> => {
-        const response = await this.http.get<ApiResponse<Course>>(`/customer/courses/${id}`);
-        return (response.data as any).data || response.data;
+      getCustomerCourse: async (id: number, options?: RequestOptions): Promise<Course> => {
+        const response = await this.http.get<ApiResponse<Course>>(`/customer/courses/${id}`, undefined, undefined, options);
+        return unwrap(response.data, response);
       },
 
-      getCustomerCourseModule: async (courseId: number, moduleId: number): Promise<CourseModule> => {
-        const response = await this.http.get<ApiResponse<CourseModule>>(`/customer/courses/${courseId}/modules/${moduleId}`);
-        return (response.data as any).data || response.data;
+      getCustomerCourseModule: async (courseId: number, moduleId: number, options?: RequestOptions): Promise<CourseModule> => {
+        const response = await this.http.get<ApiResponse<CourseModule>>(`/customer/courses/${courseId}/modules/${moduleId}`, undefined, undefined, options);
+        return unwrap(response.data, response);
       }
+    });
+
+    return {
+      ...methods,
+
+      iterate: (params?: Parameters<typeof methods.getAll>[0], options?: IterateOptions): PageIterator<Course> =>
+        this.pageIterator(methods.getAll, params, options)
     };
   }
 
@@ -841,23 +1150,23 @@ export class SecureStorefrontSDK {
    * Management API (server-side only, requires secret key)
    */
   get management() {
-    return {
+    const methods = this.instrument('management', {
       getAnalytics: async (params?: {
         start_date?: string;
         end_date?: string;
         metrics?: string[];
-      }): Promise<any> => {
-        const response = await this.http.get<ApiResponse<any>>('/management/analytics', params);
-        return (response.data as any).data || response.data;
+      }, options?: RequestOptions): Promise<any> => {
+        const response = await this.http.get<ApiResponse<any>>('/management/analytics', params, undefined, options);
+        return unwrap(response.data, response);
       },
 
       updateInventory: async (data: {
         product_id: number;
         quantity: number;
         operation?: 'set' | 'add' | 'subtract';
-      }): Promise<{ success: boolean }> => {
-        const response = await this.http.post<ApiResponse<any>>('/management/inventory/update', data);
-        return (response.data as any).data || response.data;
+      }, options?: RequestOptions): Promise<{ success: boolean }> => {
+        const response = await this.http.post<ApiResponse<any>>('/management/inventory/update', data, undefined, options);
+        return unwrap(response.data, response);
       },
 
       getOrders: async (params?: {
@@ -866,30 +1175,42 @@ export class SecureStorefrontSDK {
         status?: string;
         date_from?: string;
         date_to?: string;
-      }): Promise<{ data: Order[]; pagination?: any }> => {
-        const response = await this.http.get<ApiResponse<Order[]>>('/management/orders', params);
-        return {
-          data: response.data.data,
-          pagination: response.data.pagination
-        };
+      }, options?: RequestOptions): Promise<Paginated<Order>> => {
+        const response = await this.http.get<ApiResponse<Order[]>>('/management/orders', params, undefined, options);
+        return this.paginated(response);
       },
 
       exportCustomers: async (params?: {
         format?: 'csv' | 'json';
         date_from?: string;
         date_to?: string;
-      }): Promise<any> => {
-        const response = await this.http.get<ApiResponse<any>>('/management/export/customers', params);
-        return (response.data as any).data || response.data;
+      }, options?: RequestOptions): Promise<any> => {
+        const response = await this.http.get<ApiResponse<any>>('/management/export/customers', params, undefined, options);
+        return unwrap(response.data, response);
+      },
+
+      downloadCustomers: async (params?: {
+        format?: 'csv' | 'json';
+        date_from?: string;
+        date_to?: string;
+      }, options?: DownloadRequestOptions): Promise<Download> => {
+        return this.http.download('/management/export/customers', params, undefined, options);
       },
 
       getWebhookData: async (params?: {
         type?: string;
         limit?: number;
-      }): Promise<any[]> => {
-        const response = await this.http.get<ApiResponse<any[]>>('/management/webhooks/data', params);
-        return (response.data as any).data || response.data;
+      }, options?: RequestOptions): Promise<any[]> => {
+        const response = await this.http.get<ApiResponse<any[]>>('/management/webhooks/data', params, undefined, options);
+        return unwrap(response.data, response);
       }
+    });
+
+    return {
+      ...methods,
+
+      iterateOrders: (params?: Parameters<typeof methods.getOrders>[0], options?: IterateOptions): PageIterator<Order> =>
+        this.pageIterator(methods.getOrders, params, options)
     };
   }
 
@@ -897,21 +1218,21 @@ export class SecureStorefrontSDK {
    * Custom Token Management API (requires authentication)
    */
   get customTokens() {
-    return {
+    return this.instrument('customTokens', {
       generateToken: async (data: {
         name: string;
         permissions: string[];
         expires_at?: string;
-      }): Promise<{
+      }, options?: RequestOptions): Promise<{
         token: string;
         token_id: string;
         permissions: string[];
       }> => {
-        const response = await this.http.post<ApiResponse<any>>('/custom/tokens', data);
-        return (response.data as any).data || response.data;
+        const response = await this.http.post<ApiResponse<any>>('/custom/tokens', data, undefined, options);
+        return unwrap(response.data, response);
       },
 
-      listTokens: async (): Promise<Array<{
+      listTokens: async (options?: RequestOptions): Promise<Array<{
         id: string;
         name: string;
         permissions: string[];
@@ -919,39 +1240,54 @@ export class SecureStorefrontSDK {
         expires_at?: string;
         last_used_at?: string;
       }>> => {
-        const response = await this.http.get<ApiResponse<any[]>>('/custom/tokens');
-        return (response.data as any).data || response.data;
+        const response = await this.http.get<ApiResponse<any[]>>('/custom/tokens', undefined, undefined, options);
+        return unwrap(response.data, response);
       },
 
-      revokeToken: async (tokenId: string): Promise<{ success: boolean }> => {
-        const response = await this.http.delete<ApiResponse<any>>(`/custom/tokens/${tokenId}`);
-        return (response.data as any).data || response.data;
+      revokeToken: async (tokenId: string, options?: RequestOptions): Promise<{ success: boolean }> => {
+        const response = await this.http.delete<ApiResponse<any>>(`/custom/tokens/${tokenId}`, undefined, options);
+        return unwrap(response.data, response);
       },
 
-      getTokenStats: async (tokenId: string): Promise<{
+      getTokenStats: async (tokenId: string, options?: RequestOptions): Promise<{
         requests_count: number;
         last_used_at?: string;
         endpoints_used: string[];
       }> => {
-        const response = await this.http.get<ApiResponse<any>>(`/custom/tokens/${tokenId}/stats`);
-        return (response.data as any).data || response.data;
+        const response = await this.http.get<ApiResponse<any>>(`/custom/tokens/${tokenId}/stats`, undefined, undefined, options);
+        return unwrap(response.data, response);
       },
 
-      validateToken: async (token: string): Promise<{
+      validateToken: async (token: string, options?: RequestOptions): Promise<{
         valid: boolean;
         permissions: string[];
         expires_at?: string;
       }> => {
-        const response = await this.http.post<ApiResponse<any>>('/custom/tokens/validate', { token });
-        return (response.data as any).data || response.data;
+        const response = await this.http.post<ApiResponse<any>>('/custom/tokens/validate', { token }, undefined, options);
+        return unwrap(response.data, response);
       },
 
-      getTokenPermissions: async (): Promise<{
+      getTokenPermissions: async (options?: RequestOptions): Promise<{
         available_permissions: string[];
         permission_descriptions: Record<string, string>;
       }> => {
-        const response = await this.http.get<ApiResponse<any>>('/custom/tokens/permissions');
-        return (response.data as any).data || response.data;
+        const response = await this.http.get<ApiResponse<any>>('/custom/tokens/permissions', undefined, undefined, options);
+        return unwrap(response.data, response);
+      }
+    });
+  }
+
+  /**
+   * Response Cache (no-op unless `cache` is configured)
+   */
+  get cache() {
+    return {
+      invalidate: async (tags: string | string[]): Promise<void> => {
+        await this.http.invalidateCache(tags);
+      },
+
+      clear: async (): Promise<void> => {
+        await this.http.clearCache();
       }
     };
   }
@@ -996,10 +1332,8 @@ export class SecureStorefrontSDK {
   }
 
   // Logging utility
-  private log(message: string, data?: any): void {
-    if (this.config.enableLogging) {
-      console.log(`[StorefrontSDK] ${message}`, data || '');
-    }
+  private log(message: string, data?: Record<string, unknown>): void {
+    this.logger.debug(message, data);
   }
 
   /**
@@ -1008,7 +1342,7 @@ export class SecureStorefrontSDK {
   getInfo(): {
     version: string;
     environment: typeof Environment.info;
-    config: Omit<StorefrontConfig, 'secretKey'>;
+    config: Omit<StorefrontConfig, 'secretKey' | 'keys'>;
   } {
     return {
       version: this.config.version,
@@ -1027,9 +1361,9 @@ export class SecureStorefrontSDK {
   /**
    * Health check
    */
-  async healthCheck(): Promise<{ status: 'ok' | 'error'; message?: string }> {
+  async healthCheck(options?: RequestOptions): Promise<{ status: 'ok' | 'error'; message?: string }> {
     try {
-      await this.http.get('/health');
+      await this.http.get('/health', undefined, undefined, options);
       return { status: 'ok' };
     } catch (error) {
       return {
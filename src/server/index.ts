@@ -0,0 +1,20 @@
+/**
+ * Server - Verify signed requests from Storefront SDK clients in your own backend
+ *
+ *   import { signatureMiddleware } from '@rmz/storefront-sdk/server';
+ */
+
+export { RequestVerifier, createRequestVerifier } from './verify';
+export type {
+  SecretLookup,
+  VerifierOptions,
+  VerificationFailureReason,
+  VerificationFailure,
+  VerifiedRequest,
+  VerificationResult,
+  SignedRequest
+} from './verify';
+export { signatureMiddleware, withSignatureVerification } from './middleware';
+export type { NodeRequest, NodeResponse, NextFunction, SignatureMiddlewareOptions, FetchVerificationOptions } from './middleware';
+export { MemoryNonceStore } from './nonce-store';
+export type { NonceStore, MemoryNonceStoreOptions } from './nonce-store';
@@ -0,0 +1,24 @@
+import { withSignatureVerification } from './middleware';
+
+describe('withSignatureVerification', () => {
+  it('rejects a chunked body without Content-Length as soon as it passes maxBodySize', async () => {
+    const handler = jest.fn(() => new Response('ok'));
+    const verify = withSignatureVerification(handler, { keys: { pk: 'sk' }, maxBodySize: 1024 });
+
+    let pulled = 0;
+    const endless = new ReadableStream<Uint8Array>({
+      pull(controller) {
+        pulled++;
+        controller.enqueue(new Uint8Array(512));
+      }
+    });
+    const request = new Request('http://storefront.test/hook', { method: 'POST', body: endless, duplex: 'half' } as RequestInit);
+
+    const response = await verify(request);
+
+    expect(response.status).toBe(413);
+    expect(await response.json()).toMatchObject({ success: false, reason: 'body_too_large' });
+    expect(pulled).toBeLessThan(10);
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,240 @@
+/**
+ * Verification Middleware - Node.js http / Express / Connect and fetch-style handlers
+ */
+
+import { RequestVerifier, type VerificationFailure, type VerifiedRequest, type VerifierOptions } from './verify';
+
+/**
+ * Minimal shape of a Node.js IncomingMessage (plus what Express/Connect add)
+ */
+export interface NodeRequest {
+  method?: string;
+  url?: string;
+  originalUrl?: string; // Express keeps the mount path here
+  headers: Record<string, string | string[] | undefined>;
+  readableEnded?: boolean;
+  on(event: string, listener: (...args: any[]) => void): unknown;
+  rawBody?: Uint8Array; // Set by the middleware (or a body parser's `verify` hook)
+  body?: unknown;
+  storefront?: VerifiedRequest; // Set by the middleware once verified
+}
+
+/**
+ * Minimal shape of a Node.js ServerResponse
+ */
+export interface NodeResponse {
+  statusCode: number;
+  headersSent?: boolean;
+  setHeader(name: string, value: string): unknown;
+  end(body?: string): unknown;
+}
+
+export type NextFunction = (error?: unknown) => void;
+
+export interface SignatureMiddlewareOptions extends VerifierOptions {
+  // Custom rejection; the default answers 401 (413 for large bodies) with `{ success: false, message, reason }`
+  onReject?: (failure: VerificationFailure, req: NodeRequest, res: NodeResponse, next: NextFunction) => void;
+}
+
+export interface FetchVerificationOptions extends VerifierOptions {
+  onReject?: (failure: VerificationFailure, request: Request) => Response | Promise<Response>;
+}
+
+/**
+ * Connect/Express middleware, also usable from a plain `http` server:
+ *
+ *   http.createServer((req, res) => verify(req, res, () => handle(req, res)));
+ *
+ * Mount it before body parsers: the raw body is buffered into `req.rawBody`, JSON bodies are parsed into
+ * `req.body` and `req.storefront` carries the verified public key.
+ */
+export function signatureMiddleware(options: SignatureMiddlewareOptions) {
+  const verifier = new RequestVerifier(options);
+  const reject = options.onReject || ((failure: VerificationFailure, _req: NodeRequest, res: NodeResponse) => {
+    writeFailure(res, failure);
+  });
+
+  return (req: NodeRequest, res: NodeResponse, next: NextFunction = () => undefined): void => {
+    readNodeBody(req, verifier.maxBodySize)
+      .then(async body => {
+        if (body === null) {
+          reject(tooLarge(), req, res, next);
+          return;
+        }
+
+        const result = await verifier.verify({
+          method: req.method || 'GET',
+          url: req.originalUrl || req.url || '/',
+          headers: req.headers,
+          body
+        });
+        if (!result.valid) {
+          reject(result, req, res, next);
+          return;
+        }
+
+        req.storefront = result;
+        next();
+      })
+      .catch(next);
+  };
+}
+
+/**
+ * Wrap a fetch-style handler (Next.js route handlers, Hono, Cloudflare Workers, Deno, Bun)
+ */
+export function withSignatureVerification(
+  handler: (request: Request, verified: VerifiedRequest) => Response | Promise<Response>,
+  options: FetchVerificationOptions
+): (request: Request) => Promise<Response> {
+  const verifier = new RequestVerifier(options);
+  const reject = options.onReject || ((failure: VerificationFailure) => failureResponse(failure));
+
+  return async (request: Request): Promise<Response> => {
+    const declared = Number(request.headers.get('Content-Length'));
+    if (declared > verifier.maxBodySize) {
+      return reject(tooLarge(), request);
+    }
+
+    const body = await readFetchBody(request, verifier.maxBodySize);
+    const result = body === null
+      ? tooLarge()
+      : await verifier.verify({ method: request.method, url: request.url, headers: request.headers, body });
+
+    return result.valid ? handler(request, result) : reject(result, request);
+  };
+}
+
+/**
+ * Read a clone of the body chunk by chunk (Content-Length may be absent); null as soon as it exceeds `limit`
+ */
+async function readFetchBody(request: Request, limit: number): Promise<Uint8Array | null> {
+  const stream = request.clone().body;
+  if (!stream) {
+    return new Uint8Array(0);
+  }
+
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+
+  for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+    size += chunk.value.length;
+    if (size > limit) {
+      // Not awaited: cancelling one branch of a teed stream settles only once the other branch is cancelled too
+      reader.cancel().catch(() => undefined);
+      return null;
+    }
+    chunks.push(chunk.value);
+  }
+
+  return concat(chunks, size);
+}
+
+/**
+ * Buffer the raw body once; null as soon as it exceeds `limit` (the rest of the stream is discarded)
+ */
+function readNodeBody(req: NodeRequest, limit: number): Promise<Uint8Array | null> {
+  if (req.rawBody) {
+    return Promise.resolve(req.rawBody.length > limit ? null : req.rawBody);
+  }
+  if (req.readableEnded) {
+    return Promise.reject(new Error('Request body was already consumed; mount the signature middleware before body parsers'));
+  }
+
+  return new Promise((resolve, reject) => {
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    let overflow = false;
+
+    req.on('data', (chunk: Uint8Array | string) => {
+      if (overflow) {
+        return;
+      }
+
+      const bytes = typeof chunk === 'string' ? new TextEncoder().encode(chunk) : chunk;
+      size += bytes.length;
+      if (size > limit) {
+        overflow = true;
+        chunks.length = 0;
+        resolve(null);
+      } else {
+        chunks.push(bytes);
+      }
+    });
+    req.on('error', reject);
+    req.on('end', () => {
+      if (overflow) {
+        return;
+      }
+
+      const body = concat(chunks, size);
+      req.rawBody = body;
+      exposeBody(req, body);
+      resolve(body);
+    });
+  });
+}
+
+/**
+ * Hand the buffered body to downstream handlers, since the stream can't be read twice
+ */
+function exposeBody(req: NodeRequest, body: Uint8Array): void {
+  if (req.body !== undefined || !body.length) {
+    return;
+  }
+
+  const contentType = String(req.headers['content-type'] || '');
+  const text = new TextDecoder().decode(body);
+
+  if (contentType.includes('application/json') && text) {
+    try {
+      req.body = JSON.parse(text);
+    } catch {
+      req.body = text;
+    }
+  } else if (!contentType.includes('multipart/form-data')) {
+    req.body = text;
+  }
+
+  // body-parser skips requests it sees as already parsed
+  (req as NodeRequest & { _body?: boolean })._body = req.body !== undefined;
+}
+
+function concat(chunks: Uint8Array[], size: number): Uint8Array {
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return body;
+}
+
+function tooLarge(): VerificationFailure {
+  return { valid: false, reason: 'body_too_large', message: 'Request body too large' };
+}
+
+function statusFor(failure: VerificationFailure): number {
+  return failure.reason === 'body_too_large' ? 413 : 401;
+}
+
+function failureBody(failure: VerificationFailure): string {
+  return JSON.stringify({ success: false, message: failure.message, reason: failure.reason });
+}
+
+function writeFailure(res: NodeResponse, failure: VerificationFailure): void {
+  if (res.headersSent) {
+    return;
+  }
+  res.statusCode = statusFor(failure);
+  res.setHeader('Content-Type', 'application/json');
+  res.end(failureBody(failure));
+}
+
+function failureResponse(failure: VerificationFailure): Response {
+  return new Response(failureBody(failure), {
+    status: statusFor(failure),
+    headers: { 'Content-Type': 'application/json' }
+  });
+}
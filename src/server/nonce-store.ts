@@ -0,0 +1,62 @@
+/**
+ * Nonce Stores - Remember X-Nonce values so a signed request is only accepted once
+ * Adapters may be sync or async
+ */
+
+export interface NonceStore {
+  // Record `nonce` for `ttl` seconds; false when it was already recorded. Must be atomic (e.g. Redis `SET key 1 NX EX ttl`)
+  add(nonce: string, ttl: number): boolean | Promise<boolean>;
+}
+
+export interface MemoryNonceStoreOptions {
+  maxEntries?: number; // Oldest nonces are forgotten beyond this (default: 100000)
+}
+
+const DEFAULT_MAX_ENTRIES = 100000;
+
+/**
+ * In-process store; use a shared adapter when several instances verify requests
+ */
+export class MemoryNonceStore implements NonceStore {
+  private entries: Map<string, number> = new Map(); // Nonce -> expiry (epoch ms), in insertion order
+  private maxEntries: number;
+
+  constructor(options: MemoryNonceStoreOptions = {}) {
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+  }
+
+  add(nonce: string, ttl: number): boolean {
+    const now = Date.now();
+    this.prune(now);
+
+    const expiresAt = this.entries.get(nonce);
+    if (expiresAt !== undefined && expiresAt > now) {
+      return false;
+    }
+
+    if (this.entries.size >= this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+    this.entries.delete(nonce);
+    this.entries.set(nonce, now + ttl * 1000);
+    return true;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+
+  // With a constant TTL insertion order is expiry order, so stop at the first live entry
+  private prune(now: number): void {
+    for (const [nonce, expiresAt] of this.entries) {
+      if (expiresAt > now) {
+        break;
+      }
+      this.entries.delete(nonce);
+    }
+  }
+}
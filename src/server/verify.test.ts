@@ -0,0 +1,87 @@
+import { createRequestVerifier } from './verify';
+import { SecureStorefrontSDK } from '../secure-storefront-sdk';
+import { KeyRing } from '../core/keyring';
+
+type Version = 'v1' | 'v2';
+
+function sdk(signatureVersion: Version, credentials: { secretKey?: string; keys?: KeyRing } = { secretKey: 'sk_test' }) {
+  return new SecureStorefrontSDK({ apiUrl: 'https://api.storefront.test/api', publicKey: 'pk_test', signatureVersion, ...credentials });
+}
+
+describe.each<Version>(['v1', 'v2'])('RequestVerifier.verifySignedUrl (%s)', (version) => {
+  const verifier = createRequestVerifier({ keys: { pk_test: 'sk_test' } });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('accepts a link from downloads.signUrl() until it expires', async () => {
+    const url = await sdk(version).downloads.signUrl('/customer/orders/42/invoice', { format: 'pdf' }, 60);
+
+    expect(new URL(url).searchParams.get('signature_version')).toBe(version);
+    expect(await verifier.verifySignedUrl({ url })).toMatchObject({ valid: true, publicKey: 'pk_test', version });
+
+    const later = Date.now() + 61_000;
+    jest.spyOn(Date, 'now').mockReturnValue(later);
+    expect(await verifier.verifySignedUrl({ url })).toMatchObject({ valid: false, reason: 'expired' });
+  });
+
+  it('accepts the path with the Host header, as a server receives it', async () => {
+    const signed = new URL(await sdk(version).downloads.signUrl('/downloads/7'));
+
+    const result = await verifier.verifySignedUrl({
+      url: signed.pathname + signed.search,
+      headers: { host: 'api.storefront.test' }
+    });
+    expect(result.valid).toBe(true);
+  });
+
+  it.each([
+    ['a changed query parameter', (url: URL) => url.searchParams.set('format', 'csv')],
+    ['an added query parameter', (url: URL) => url.searchParams.append('admin', '1')],
+    ['a changed path', (url: URL) => { url.pathname = '/api/customer/orders/43/invoice'; }],
+    ['a pushed back expiry', (url: URL) => url.searchParams.set('expires', String(Number(url.searchParams.get('expires')) + 3600))]
+  ])('rejects %s', async (_name, tamper) => {
+    const url = new URL(await sdk(version).downloads.signUrl('/customer/orders/42/invoice', { format: 'pdf' }));
+    tamper(url);
+
+    expect(await verifier.verifySignedUrl({ url: url.toString() })).toMatchObject({ valid: false, reason: 'bad_signature' });
+  });
+
+  it('rejects links signed with another secret, for an unknown key or without a signature', async () => {
+    const url = new URL(await sdk(version, { secretKey: 'sk_wrong' }).downloads.signUrl('/downloads/7'));
+    expect(await verifier.verifySignedUrl({ url: url.toString() })).toMatchObject({ reason: 'bad_signature' });
+
+    const unknown = new URL(url);
+    unknown.searchParams.set('key', 'pk_other');
+    expect(await verifier.verifySignedUrl({ url: unknown.toString() })).toMatchObject({ reason: 'unknown_key' });
+
+    url.searchParams.delete('signature');
+    expect(await verifier.verifySignedUrl({ url: url.toString() })).toMatchObject({ reason: 'missing_headers' });
+  });
+
+  it('names the ring key in key_id', async () => {
+    const ring = () => new KeyRing([{ id: 'k1', secret: 's1' }]);
+    const url = await sdk(version, { keys: ring() }).downloads.signUrl('/downloads/7');
+
+    expect(new URL(url).searchParams.get('key_id')).toBe('k1');
+    expect(await createRequestVerifier({ keys: { pk_test: ring() } }).verifySignedUrl({ url })).toMatchObject({ valid: true, keyId: 'k1' });
+  });
+});
+
+describe('RequestVerifier.verifySignedUrl', () => {
+  it('binds v2 links to their host', async () => {
+    const verifier = createRequestVerifier({ keys: { pk_test: 'sk_test' } });
+    const url = new URL(await sdk('v2').downloads.signUrl('/downloads/7'));
+    url.host = 'evil.test';
+
+    expect(await verifier.verifySignedUrl({ url: url.toString() })).toMatchObject({ valid: false, reason: 'bad_signature' });
+  });
+
+  it('rejects versions the verifier does not accept', async () => {
+    const verifier = createRequestVerifier({ keys: { pk_test: 'sk_test' }, versions: ['v2'] });
+    const url = await sdk('v1').downloads.signUrl('/downloads/7');
+
+    expect(await verifier.verifySignedUrl({ url })).toMatchObject({ valid: false, reason: 'unsupported_version' });
+  });
+});
@@ -0,0 +1,288 @@
+/**
+ * Request Verification - Check signed calls from Storefront SDK clients
+ * Framework-agnostic core used by the Node.js and fetch middleware
+ */
+
+import { SecurityManager } from '../core/security';
+import type { KeyRing } from '../core/keyring';
+import { CREDENTIAL_HEADERS } from '../core/canonical';
+import { multipartManifest } from '../core/multipart';
+import { MemoryNonceStore, type NonceStore } from './nonce-store';
+
+/**
+ * Secret for a public key: a static map or a lookup (database, secrets manager, ...).
+ * A key ring lets a public key rotate its secret; X-Key-Id picks the key.
+ */
+export type SecretLookup =
+  | Record<string, string | KeyRing>
+  | ((publicKey: string) => SecretEntry | Promise<SecretEntry>);
+
+type SecretEntry = string | KeyRing | null | undefined;
+
+export interface VerifierOptions {
+  keys: SecretLookup;
+  timestampTolerance?: number; // Accepted X-Timestamp skew in seconds (default: 300)
+  versions?: string[]; // Accepted X-Signature-Version values (default: ['v1', 'v2'])
+  host?: string; // Host that v2 clients sign, when it differs from the Host header (e.g. behind a proxy)
+  maxBodySize?: number; // Bytes buffered before rejecting with 'body_too_large' (default: 1 MB)
+  nonces?: NonceStore | boolean; // Reject a reused X-Nonce; `true` keeps them in memory (default: off)
+  requireNonce?: boolean; // Reject requests without an X-Nonce (default: false)
+}
+
+export type VerificationFailureReason =
+  | 'missing_headers' // X-Public-Key, X-Timestamp or X-Signature absent (signed URLs: key, expires or signature)
+  | 'unknown_key' // No secret for the public key (or for its X-Key-Id)
+  | 'expired_key' // X-Key-Id names a key past its expiry
+  | 'unsupported_version' // X-Signature-Version not accepted
+  | 'stale' // X-Timestamp outside the tolerance window
+  | 'expired' // Signed URL past its `expires`
+  | 'bad_signature' // HMAC doesn't match
+  | 'unsigned_headers' // v2 request carries Authorization or X-Cart-Token outside X-Signed-Headers
+  | 'missing_nonce' // No X-Nonce while requireNonce is set
+  | 'replayed' // X-Nonce already seen within the tolerance window
+  | 'body_too_large'; // Body exceeds maxBodySize
+
+export interface VerifiedRequest {
+  valid: true;
+  publicKey: string;
+  version: string;
+  timestamp: number;
+  keyId?: string;
+  nonce?: string;
+}
+
+export interface VerificationFailure {
+  valid: false;
+  reason: VerificationFailureReason;
+  message: string;
+  publicKey?: string;
+}
+
+export type VerificationResult = VerifiedRequest | VerificationFailure;
+
+/**
+ * A request as received, before any body parsing
+ */
+export interface SignedRequest {
+  method: string;
+  url: string; // Path with query string, or an absolute URL
+  headers: Headers | Record<string, string | string[] | undefined>;
+  body?: string | Uint8Array; // Raw body bytes as sent
+}
+
+const DEFAULT_MAX_BODY_SIZE = 1024 * 1024;
+
+const MESSAGES: Record<VerificationFailureReason, string> = {
+  missing_headers: 'Missing signature headers',
+  unknown_key: 'Unknown public key',
+  expired_key: 'Signing key has expired',
+  unsupported_version: 'Unsupported signature version',
+  stale: 'Request timestamp is outside the allowed window',
+  expired: 'Signed URL has expired',
+  bad_signature: 'Invalid request signature',
+  unsigned_headers: 'Credential headers must be signed',
+  missing_nonce: 'Missing request nonce',
+  replayed: 'Request has already been processed',
+  body_too_large: 'Request body too large'
+};
+
+export class RequestVerifier {
+  readonly maxBodySize: number;
+  private options: VerifierOptions;
+  private nonces?: NonceStore;
+
+  constructor(options: VerifierOptions) {
+    this.options = options;
+    this.maxBodySize = options.maxBodySize ?? DEFAULT_MAX_BODY_SIZE;
+    this.nonces = options.nonces === true ? new MemoryNonceStore() : options.nonces || undefined;
+  }
+
+  /**
+   * Verify the signature headers against the raw request
+   */
+  async verify(request: SignedRequest): Promise<VerificationResult> {
+    const header = (name: string) => readHeader(request.headers, name);
+    const publicKey = header('X-Public-Key');
+    const timestamp = header('X-Timestamp');
+    const signature = header('X-Signature');
+    const version = header('X-Signature-Version') || 'v1';
+    const keyId = header('X-Key-Id') || undefined;
+    const nonce = header('X-Nonce') || undefined;
+
+    if (!publicKey || !timestamp || !signature) {
+      return failure('missing_headers');
+    }
+    if (!nonce && this.options.requireNonce) {
+      return failure('missing_nonce', publicKey);
+    }
+    if (!(this.options.versions || ['v1', 'v2']).includes(version)) {
+      return failure('unsupported_version', publicKey);
+    }
+
+    // v2 signs the headers it declares, which must include any credentials sent
+    const signedNames = (header('X-Signed-Headers') || '').split(';').map(name => name.trim().toLowerCase()).filter(Boolean);
+    if (version === 'v2' && CREDENTIAL_HEADERS.some(name => header(name) !== undefined && !signedNames.includes(name))) {
+      return failure('unsigned_headers', publicKey);
+    }
+
+    const candidates = await this.secrets(publicKey, keyId);
+    if (!Array.isArray(candidates)) {
+      return candidates;
+    }
+
+    const body = request.body ?? '';
+    const size = typeof body === 'string' ? new TextEncoder().encode(body).length : body.length;
+    if (size > this.maxBodySize) {
+      return failure('body_too_large', publicKey);
+    }
+
+    const tolerance = this.options.timestampTolerance ?? 300;
+    const managers = candidates.map(secretKey =>
+      new SecurityManager({ publicKey, secretKey, signatureVersion: version, timestampTolerance: tolerance })
+    );
+    if (!managers[0].isTimestampValid(timestamp)) {
+      return failure('stale', publicKey);
+    }
+
+    const url = this.resolveUrl(request.url, header('Host'));
+    const target = version === 'v2' ? url.toString() : url.pathname + url.search;
+    const signedHeaders: Record<string, string> = {};
+    signedNames.forEach(name => {
+      signedHeaders[name] = header(name) ?? '';
+    });
+
+    const signedBody = await canonicalBody(body, header('Content-Type'));
+    const extras = { keyId, nonce, headers: version === 'v2' ? signedHeaders : undefined };
+    let valid = false;
+    for (const security of managers) {
+      if (await security.verifySignature(signature, timestamp, request.method, target, signedBody, extras)) {
+        valid = true;
+        break;
+      }
+    }
+    if (!valid) {
+      return failure('bad_signature', publicKey);
+    }
+
+    // Only signed nonces are recorded, and for as long as the timestamp could still pass (either side of now)
+    if (nonce && this.nonces && !(await this.nonces.add(`${publicKey}:${nonce}`, tolerance * 2))) {
+      return failure('replayed', publicKey);
+    }
+
+    return { valid: true, publicKey, version, timestamp: Number(timestamp), keyId, nonce };
+  }
+
+  /**
+   * Verify a link made by `signUrl()` / `sdk.downloads.signUrl()`, e.g. on the route serving the download.
+   * Checks `expires` and the HMAC in `signature`; the link carries no timestamp window or nonce.
+   */
+  async verifySignedUrl(request: Pick<SignedRequest, 'url'> & Partial<Pick<SignedRequest, 'headers'>>): Promise<VerificationResult> {
+    const url = this.resolveUrl(request.url, request.headers && readHeader(request.headers, 'Host'));
+    const param = (name: string) => url.searchParams.get(name) || undefined;
+    const publicKey = param('key');
+    const expires = param('expires');
+    const version = param('signature_version') || 'v1';
+    const keyId = param('key_id');
+
+    if (!publicKey || !expires || !param('signature')) {
+      return failure('missing_headers', publicKey);
+    }
+    if (!(this.options.versions || ['v1', 'v2']).includes(version)) {
+      return failure('unsupported_version', publicKey);
+    }
+    if (!/^\d+$/.test(expires) || Number(expires) <= Math.floor(Date.now() / 1000)) {
+      return failure('expired', publicKey);
+    }
+
+    const candidates = await this.secrets(publicKey, keyId);
+    if (!Array.isArray(candidates)) {
+      return candidates;
+    }
+
+    for (const secretKey of candidates) {
+      const security = new SecurityManager({ publicKey, secretKey, signatureVersion: version, timestampTolerance: this.options.timestampTolerance ?? 300 });
+      if (await security.verifySignedUrl(url.toString())) {
+        return { valid: true, publicKey, version, timestamp: Number(expires), keyId };
+      }
+    }
+    return failure('bad_signature', publicKey);
+  }
+
+  /**
+   * Secrets a signature from `publicKey` may have been made with, or why there are none
+   */
+  private async secrets(publicKey: string, keyId?: string): Promise<string[] | VerificationFailure> {
+    const secrets = await this.lookup(publicKey);
+    if (!secrets) {
+      return failure('unknown_key', publicKey);
+    }
+
+    if (typeof secrets === 'string') {
+      return [secrets];
+    }
+    if (keyId) {
+      const key = secrets.get(keyId);
+      if (!key) {
+        return failure('unknown_key', publicKey);
+      }
+      if (secrets.isExpired(key)) {
+        return failure('expired_key', publicKey);
+      }
+      return [key.secret];
+    }
+
+    // Clients that don't send X-Key-Id yet sign with one of the ring's secrets
+    const candidates = secrets.verificationKeys().map(key => key.secret);
+    return candidates.length ? candidates : failure('unknown_key', publicKey);
+  }
+
+  /**
+   * The URL as the client saw it: `host` overrides the Host header
+   */
+  private resolveUrl(url: string, host?: string): URL {
+    const resolved = new URL(url, `http://${host || 'localhost'}`);
+    if (this.options.host) {
+      resolved.host = this.options.host;
+    }
+    return resolved;
+  }
+
+  private async lookup(publicKey: string): Promise<SecretEntry> {
+    const { keys } = this.options;
+    if (typeof keys === 'function') {
+      return keys(publicKey);
+    }
+    return Object.prototype.hasOwnProperty.call(keys, publicKey) ? keys[publicKey] : undefined;
+  }
+}
+
+/**
+ * Create a verifier for signed Storefront requests
+ */
+export function createRequestVerifier(options: VerifierOptions): RequestVerifier {
+  return new RequestVerifier(options);
+}
+
+/**
+ * The string the client signed: the body text, or the manifest of a multipart body (see core/multipart)
+ */
+async function canonicalBody(body: string | Uint8Array, contentType?: string): Promise<string> {
+  if (contentType && contentType.includes('multipart/form-data')) {
+    const form = await new Response(body, { headers: { 'Content-Type': contentType } }).formData();
+    return multipartManifest(form);
+  }
+  return typeof body === 'string' ? body : new TextDecoder().decode(body);
+}
+
+function readHeader(headers: SignedRequest['headers'], name: string): string | undefined {
+  if (typeof (headers as Headers).get === 'function') {
+    return (headers as Headers).get(name) ?? undefined;
+  }
+
+  const value = (headers as Record<string, string | string[] | undefined>)[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function failure(reason: VerificationFailureReason, publicKey?: string): VerificationFailure {
+  return { valid: false, reason, message: MESSAGES[reason], publicKey };
+}
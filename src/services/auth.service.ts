@@ -70,7 +70,7 @@ export class AuthService extends BaseService {
   /**
    * Update customer profile (requires authentication)
    */
-  async updateProfile(data: Partial<Customer>): Promise<Customer> {
+  async updateProfile(data: Partial<Customer> & { avatar?: Blob }): Promise<Customer> {
     const response = await this.http.patch<Customer>('/customer/profile', data);
     
     // Handle different response formats
@@ -1,4 +1,6 @@
 import { HttpClient } from '../utils/http-client';
+import { paginate } from '../core/envelope';
+import { ApiResponse, PaginatedResponse } from '../types';
 
 export abstract class BaseService {
   protected http: HttpClient;
@@ -6,4 +8,11 @@ export abstract class BaseService {
   constructor(http: HttpClient) {
     this.http = http;
   }
+
+  /**
+   * Build a PaginatedResponse from a list response
+   */
+  protected paginated<T>(response: ApiResponse<T[]>): PaginatedResponse<T> {
+    return { success: true, ...paginate<T>(response) };
+  }
 }
\ No newline at end of file
@@ -6,7 +6,7 @@ export interface AddToCartRequest {
   qty: number;
   notice?: string;
   subscription_plan?: SubscriptionVariant;
-  fields?: Record<string, string>;
+  fields?: Record<string, string | Blob>; // File-type fields are sent as multipart
 }
 
 export interface CartSummary extends Cart {
@@ -31,6 +31,6 @@ export class CategoriesService extends BaseService {
   ): Promise<PaginatedResponse<Product>> {
     const query = filters ? `?${new URLSearchParams(filters as any).toString()}` : '';
     const response = await this.http.get<Product[]>(`/categories/${slug}/products${query}`);
-    return response as any;
+    return this.paginated(response);
   }
 }
\ No newline at end of file
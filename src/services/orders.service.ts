@@ -11,7 +11,7 @@ export class OrdersService extends BaseService {
     if (perPage) params.append('per_page', perPage.toString());
     const query = params.toString() ? `?${params.toString()}` : '';
     const response = await this.http.get<Order[]>(`/customer/orders${query}`);
-    return response as any;
+    return this.paginated(response);
   }
 
   /**
@@ -24,7 +24,7 @@ export class ProductsService extends BaseService {
   async getProducts(filters?: ProductsFilter): Promise<PaginatedResponse<Product>> {
     const query = filters ? `?${new URLSearchParams(filters as any).toString()}` : '';
     const response = await this.http.get<Product[]>(`/products${query}`);
-    return response as any; // Type assertion since API returns paginated response
+    return this.paginated(response);
   }
 
   /**
@@ -44,7 +44,7 @@ export class ProductsService extends BaseService {
     if (perPage) params.append('per_page', perPage.toString());
     const query = params.toString() ? `?${params.toString()}` : '';
     const response = await this.http.get<Review[]>(`/products/${productId}/reviews${query}`);
-    return response as any;
+    return this.paginated(response);
   }
 
   /**
@@ -59,10 +59,11 @@ export class ProductsService extends BaseService {
   /**
    * Submit product review (requires authentication)
    */
-  async submitReview(productId: number, rating: number, comment: string): Promise<Review> {
+  async submitReview(productId: number, rating: number, comment: string, photos?: Blob[]): Promise<Review> {
     const response = await this.http.post<Review>(`/products/${productId}/reviews`, {
       rating,
-      comment
+      comment,
+      photos
     });
     return response.data!;
   }
@@ -102,6 +103,6 @@ export class ProductsService extends BaseService {
   async searchProducts(filters: ProductSearchFilter): Promise<PaginatedResponse<Product>> {
     const query = `?${new URLSearchParams(filters as any).toString()}`;
     const response = await this.http.get<Product[]>(`/products/search${query}`);
-    return response as any;
+    return this.paginated(response);
   }
 }
\ No newline at end of file
@@ -7,6 +7,7 @@
 import { EventEmitter } from 'events';
 import { HttpClient, HttpClientConfig } from './utils/http-client';
 import { AdvancedTable } from './advanced-sdk';
+import { createRedactingLogger, noopLogger, type Logger } from './core/logger';
 
 // Type definitions for all entities
 interface Product {
@@ -456,6 +457,7 @@ class ReviewsTable extends AdvancedTable<Review> {
 // Main Storefront Client
 export class StorefrontClient extends EventEmitter {
   private http: HttpClient;
+  private logger: Logger;
   
   // Table instances
   public products: ProductsTable;
@@ -474,6 +476,7 @@ export class StorefrontClient extends EventEmitter {
     super();
     
     this.http = new HttpClient(config);
+    this.logger = config.logger ? createRedactingLogger(config.logger) : noopLogger;
     
     // Initialize tables
     this.products = new ProductsTable(this.http, this);
@@ -546,12 +549,12 @@ export class StorefrontClient extends EventEmitter {
   enableRealtime() {
     // This would connect to WebSocket or Server-Sent Events
     // For now, we'll use polling simulation
-    console.log('Real-time features enabled');
+    this.logger.info('Real-time features enabled');
     this.emit('realtime:connected');
   }
 
   disableRealtime() {
-    console.log('Real-time features disabled');
+    this.logger.info('Real-time features disabled');
     this.emit('realtime:disconnected');
   }
 
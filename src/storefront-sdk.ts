@@ -1,4 +1,6 @@
 import { HttpClient, HttpClientConfig } from './utils/http-client';
+import type { HttpTransport } from './core/http-client';
+import type { Logger, LogLevel } from './core/logger';
 import { StoreService } from './services/store.service';
 import { ProductsService } from './services/products.service';
 import { AuthService } from './services/auth.service';
@@ -16,6 +18,10 @@ export interface StorefrontSDKConfig {
   timeout?: number;
   headers?: Record<string, string>;
   environment?: 'production' | 'development';
+  transport?: HttpTransport;
+  signatureVersion?: 'v1' | 'v2';
+  logger?: Logger; // Structured logger (console, pino, winston, ...); fields are redacted
+  logLevel?: LogLevel;
 }
 
 export class StorefrontSDK {
@@ -41,6 +47,10 @@ export class StorefrontSDK {
       timeout: config.timeout,
       headers: config.headers,
       environment: config.environment,
+      transport: config.transport,
+      signatureVersion: config.signatureVersion,
+      logger: config.logger,
+      logLevel: config.logLevel,
     });
 
     // Initialize services
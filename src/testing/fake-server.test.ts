@@ -0,0 +1,135 @@
+import { SecureStorefrontSDK } from '../secure-storefront-sdk';
+import { StorefrontSDK } from '../storefront-sdk';
+import { AuthenticationError } from '../core/errors';
+import { createFakeStorefront, type FakeStorefront } from './fake-server';
+
+type Version = 'v1' | 'v2';
+
+interface Sent {
+  url: string;
+  init: RequestInit;
+}
+
+/**
+ * Fetch transport that remembers the last request, for replaying or tampering with it
+ */
+function recording(fake: FakeStorefront) {
+  const sent: Sent[] = [];
+  const transport = (url: string, init: RequestInit) => {
+    sent.push({ url, init: { ...init, headers: { ...(init.headers as Record<string, string>) } } });
+    return fake.fetch(url, init);
+  };
+  return { sent, transport, last: () => sent[sent.length - 1] };
+}
+
+describe.each<Version>(['v1', 'v2'])('signature %s against the fake Storefront API', (signatureVersion) => {
+  let fake: FakeStorefront;
+
+  beforeEach(() => {
+    fake = createFakeStorefront({ requireSignature: true });
+  });
+
+  it('signs every SecureStorefrontSDK request', async () => {
+    const sdk = new SecureStorefrontSDK({
+      apiUrl: fake.baseUrl,
+      publicKey: 'pk_test',
+      secretKey: 'sk_test',
+      signatureVersion,
+      maxRetries: 0,
+      transport: fake.fetch
+    });
+
+    const products = await sdk.products.getAll({ per_page: 3, price_min: 1 });
+    expect(products.data).toHaveLength(3);
+
+    await sdk.cart.addItem(1, 2);
+    const cart = await sdk.cart.addItem(5, 1);
+    expect(cart.count).toBe(3);
+
+    const { session_token } = await sdk.auth.startPhoneAuth('500000001', '966');
+    sdk.setAuthToken((await sdk.auth.verifyOTP('123456', session_token)).token);
+    expect((await sdk.auth.getProfile()).email).toBe('sara@example.com');
+
+    expect(fake.requests.every(request => request.signed)).toBe(true);
+  });
+
+  it('signs every StorefrontSDK request, multipart included', async () => {
+    const sdk = new StorefrontSDK({
+      baseURL: fake.baseUrl,
+      publicKey: 'pk_test',
+      secretKey: 'sk_test',
+      signatureVersion,
+      transport: fake.fetch
+    });
+
+    await sdk.products.getProducts({ page: 1, per_page: 5 });
+    const cart = await sdk.cart.addToCart({
+      product_id: 2,
+      qty: 1,
+      fields: { proof: new Blob(['receipt'], { type: 'text/plain' }) }
+    });
+
+    expect(cart.count).toBe(1);
+    expect(fake.requests.map(request => request.status)).toEqual([200, 200]);
+    expect(fake.requests.every(request => request.signed)).toBe(true);
+  });
+
+  it('rejects requests signed with the wrong secret', async () => {
+    const sdk = new SecureStorefrontSDK({
+      apiUrl: fake.baseUrl,
+      publicKey: 'pk_test',
+      secretKey: 'sk_wrong',
+      signatureVersion,
+      maxRetries: 0,
+      transport: fake.fetch
+    });
+
+    await expect(sdk.store.get()).rejects.toBeInstanceOf(AuthenticationError);
+  });
+
+  it('rejects a replayed nonce', async () => {
+    const { transport, last } = recording(fake);
+    const sdk = new SecureStorefrontSDK({
+      apiUrl: fake.baseUrl,
+      publicKey: 'pk_test',
+      secretKey: 'sk_test',
+      signatureVersion,
+      nonce: true,
+      maxRetries: 0,
+      transport
+    });
+
+    await sdk.store.get();
+    const { url, init } = last();
+    expect((init.headers as Record<string, string>)['X-Nonce']).toMatch(/^[0-9a-f]{32}$/);
+
+    const replay = await fake.fetch(url, init);
+    expect(replay.status).toBe(401);
+    expect((await replay.json()).reason).toBe('replayed');
+  });
+});
+
+describe('signature v2 canonical request', () => {
+  it('covers the query string and credential headers', async () => {
+    const fake = createFakeStorefront({ requireSignature: true });
+    const { transport, last } = recording(fake);
+    const sdk = new SecureStorefrontSDK({
+      apiUrl: fake.baseUrl,
+      publicKey: 'pk_test',
+      secretKey: 'sk_test',
+      signatureVersion: 'v2',
+      maxRetries: 0,
+      transport
+    });
+
+    await sdk.products.getAll({ price_min: 10 });
+    const { url, init } = last();
+
+    const tampered = await fake.fetch(url.replace('price_min=10', 'price_min=0'), init);
+    expect(tampered.status).toBe(401);
+    expect((await tampered.json()).reason).toBe('bad_signature');
+
+    const unsigned = await fake.fetch(url, { ...init, headers: { ...(init.headers as Record<string, string>), Authorization: 'Bearer stolen' } });
+    expect((await unsigned.json()).reason).toBe('unsigned_headers');
+  });
+});
@@ -0,0 +1,765 @@
+/**
+ * Fake Storefront - In-process stand-in for the Storefront API
+ * Serves seeded fixtures through a fetch handler and verifies request signatures the way the API does
+ */
+
+import { RequestVerifier } from '../server/verify';
+import { defaultFixtures, type FakeCustomer, type FakeFixtures } from './fixtures';
+import type { Cart, CartItem, Customer, Order, Product } from '../secure-storefront-sdk';
+
+export interface FakeStorefrontOptions {
+  baseUrl?: string; // API root the SDK points at (default: 'http://storefront.test/api')
+  publicKey?: string; // Accepted X-Public-Key (default: 'pk_test')
+  secretKey?: string; // Key the X-Signature HMAC is checked against (default: 'sk_test')
+  requireSignature?: boolean; // Reject unsigned (X-Client-Auth) requests (default: false)
+  timestampTolerance?: number; // Accepted X-Timestamp skew in seconds (default: 300)
+  otpCode?: string; // Code accepted by phone auth (default: '123456')
+  fixtures?: FakeFixtures; // Seed data (default: defaultFixtures())
+}
+
+/**
+ * A request received by the fake, as seen after routing
+ */
+export interface FakeRequestRecord {
+  method: string; // Effective method (multipart `_method` applied)
+  path: string; // Path below the base URL, without the query
+  query: Record<string, string>;
+  headers: Record<string, string>;
+  body: any; // Parsed JSON or multipart fields (files as File)
+  signed: boolean; // Carried a valid X-Signature
+  status: number;
+}
+
+interface RouteContext {
+  params: Record<string, string>;
+  query: URLSearchParams;
+  body: Record<string, any>;
+  headers: Headers;
+  customer?: FakeCustomer;
+}
+
+interface Route {
+  method: string;
+  segments: string[];
+  auth: boolean; // Requires a customer Bearer token
+  handler: (context: RouteContext) => Response | Promise<Response>;
+}
+
+interface FakeCart {
+  token: string;
+  items: CartItem[];
+  coupon?: string;
+}
+
+interface FakeCheckout {
+  id: string;
+  order: Order & { customer_id: number };
+  cartToken?: string;
+}
+
+const DEFAULT_PER_PAGE = 15;
+
+export class FakeStorefront {
+  readonly baseUrl: string;
+  readonly requests: FakeRequestRecord[] = [];
+  fixtures!: FakeFixtures;
+
+  private options: Required<Omit<FakeStorefrontOptions, 'fixtures' | 'baseUrl'>>;
+  private seed?: FakeFixtures;
+  private verifier: RequestVerifier;
+  private routes: Route[] = [];
+  private carts: Map<string, FakeCart> = new Map();
+  private authSessions: Map<string, { phone: string; countryCode: string; verified: boolean }> = new Map();
+  private tokens: Map<string, number> = new Map(); // Bearer token -> customer id
+  private wishlists: Map<number, Set<number>> = new Map();
+  private checkouts: Map<string, FakeCheckout> = new Map();
+  private completedModules: Map<string, Set<number>> = new Map(); // `${customerId}:${courseId}`
+  private sequence = 0;
+
+  constructor(options: FakeStorefrontOptions = {}) {
+    this.baseUrl = (options.baseUrl || 'http://storefront.test/api').replace(/\/$/, '');
+    this.seed = options.fixtures;
+    this.options = {
+      publicKey: options.publicKey || 'pk_test',
+      secretKey: options.secretKey || 'sk_test',
+      requireSignature: options.requireSignature ?? false,
+      timestampTolerance: options.timestampTolerance ?? 300,
+      otpCode: options.otpCode || '123456'
+    };
+    this.verifier = new RequestVerifier({
+      keys: { [this.options.publicKey]: this.options.secretKey },
+      timestampTolerance: this.options.timestampTolerance,
+      nonces: true
+    });
+
+    this.registerRoutes();
+    this.reset();
+  }
+
+  /**
+   * Fetch-compatible transport: pass as `transport` to either SDK
+   */
+  fetch = (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    return this.handle(new Request(input, init));
+  };
+
+  /**
+   * Handle a single request (fetch handler, also usable from a real HTTP server)
+   */
+  async handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const basePath = new URL(this.baseUrl).pathname.replace(/\/$/, '');
+    const path = url.pathname.startsWith(basePath) ? url.pathname.slice(basePath.length) || '/' : url.pathname;
+
+    const raw = new Uint8Array(await request.clone().arrayBuffer());
+    const body = await readBody(request);
+    const method = (request.method === 'POST' && typeof body._method === 'string' ? body._method : request.method).toUpperCase();
+    delete body._method;
+
+    const record: FakeRequestRecord = {
+      method,
+      path,
+      query: toRecord(url.searchParams),
+      headers: toRecord(request.headers),
+      body,
+      signed: false,
+      status: 0
+    };
+    this.requests.push(record);
+
+    const authError = await this.authenticate(request, raw, record);
+    const response = authError || await this.route(method, path, {
+      params: {},
+      query: url.searchParams,
+      body,
+      headers: request.headers
+    });
+
+    record.status = response.status;
+    return response;
+  }
+
+  /**
+   * Restore the seed data and drop carts, sessions, tokens and the request log
+   */
+  reset(): void {
+    this.fixtures = this.seed ? clone(this.seed) : defaultFixtures();
+    this.carts.clear();
+    this.authSessions.clear();
+    this.tokens.clear();
+    this.wishlists.clear();
+    this.checkouts.clear();
+    this.completedModules.clear();
+    this.requests.length = 0;
+  }
+
+  /**
+   * Issue a Bearer token for a seeded customer, skipping the OTP flow
+   */
+  login(customerId: number = this.fixtures.customers[0]?.id): string {
+    if (!this.fixtures.customers.some(customer => customer.id === customerId)) {
+      throw new Error(`Unknown customer ${customerId}`);
+    }
+    const token = this.id('token');
+    this.tokens.set(token, customerId);
+    return token;
+  }
+
+  /**
+   * Mark a `payment_required` checkout as paid, as the payment gateway callback would
+   */
+  completeCheckout(checkoutId: string): Order {
+    const checkout = this.checkouts.get(checkoutId);
+    if (!checkout) {
+      throw new Error(`Unknown checkout ${checkoutId}`);
+    }
+    checkout.order.status = 'completed';
+    if (checkout.cartToken) {
+      this.carts.delete(checkout.cartToken);
+    }
+    return checkout.order;
+  }
+
+  private async authenticate(request: Request, body: Uint8Array, record: FakeRequestRecord): Promise<Response | undefined> {
+    if (!request.headers.get('X-Signature')) {
+      if (request.headers.get('X-Public-Key') !== this.options.publicKey) {
+        return fail(401, 'Invalid public key');
+      }
+      return this.options.requireSignature ? fail(401, 'Missing request signature') : undefined;
+    }
+
+    // Same check as the API and the `server` middleware
+    const result = await this.verifier.verify({ method: request.method, url: request.url, headers: request.headers, body });
+    if (!result.valid) {
+      return json(401, { success: false, message: result.message, reason: result.reason });
+    }
+
+    record.signed = true;
+    return undefined;
+  }
+
+  private customerFor(headers: Headers): FakeCustomer | undefined {
+    const token = headers.get('Authorization')?.replace(/^Bearer\s+/i, '');
+    const customerId = token ? this.tokens.get(token) : undefined;
+    return this.fixtures.customers.find(customer => customer.id === customerId);
+  }
+
+  private on(method: string, pattern: string, handler: Route['handler'], auth = false): void {
+    this.routes.push({ method, segments: pattern.split('/').filter(Boolean), auth, handler });
+  }
+
+  private async route(method: string, path: string, context: RouteContext): Promise<Response> {
+    const segments = path.split('/').filter(Boolean).map(decodeURIComponent);
+
+    for (const route of this.routes) {
+      if (route.method !== method || route.segments.length !== segments.length) {
+        continue;
+      }
+
+      const params: Record<string, string> = {};
+      const matches = route.segments.every((segment, index) => {
+        if (segment.startsWith(':')) {
+          params[segment.slice(1)] = segments[index];
+          return true;
+        }
+        return segment === segments[index];
+      });
+      if (!matches) {
+        continue;
+      }
+
+      const customer = this.customerFor(context.headers);
+      if (route.auth && !customer) {
+        return fail(401, 'Unauthenticated.');
+      }
+
+      return route.handler({ ...context, params, customer });
+    }
+
+    return fail(404, `Route ${method} ${path} not found`);
+  }
+
+  private registerRoutes(): void {
+    // Store
+    this.on('GET', '/health', () => ok({ status: 'ok' }));
+    this.on('GET', '/store', () => ok(this.fixtures.store));
+    this.on('GET', '/store/settings', () => ok(this.fixtures.store.settings || {}));
+    this.on('GET', '/store/currencies', () => ok([{ code: this.fixtures.store.currency, symbol: this.fixtures.store.currency, name: this.fixtures.store.currency }]));
+    this.on('POST', '/store/currency', ({ body }) => ok(null, `Currency changed to ${body.symbol}`));
+    this.on('GET', '/store/features', () => ok([]));
+    this.on('GET', '/store/banners', () => ok([]));
+
+    // Catalog
+    this.on('GET', '/products', ({ query }) => paginate(this.filterProducts(this.fixtures.products, query), query));
+    this.on('GET', '/products/search', ({ query }) => {
+      const term = (query.get('q') || '').toLowerCase();
+      const products = this.fixtures.products.filter(product =>
+        product.name.toLowerCase().includes(term) || (product.description || '').toLowerCase().includes(term));
+      return paginate(this.filterProducts(products, query), query);
+    });
+    this.on('GET', '/featured-products', ({ query }) =>
+      ok(this.fixtures.products.filter(product => product.is_featured).slice(0, limit(query, 8))));
+    this.on('GET', '/products/:product', ({ params }) => this.withProduct(params.product, product => ok(product)));
+    this.on('GET', '/products/:product/related', ({ params, query }) => this.withProduct(params.product, product =>
+      ok(this.fixtures.products
+        .filter(other => other.id !== product.id && other.category?.id === product.category?.id)
+        .slice(0, limit(query, 4)))));
+    this.on('GET', '/products/:product/reviews', ({ params, query }) => this.withProduct(params.product, product =>
+      paginate(this.fixtures.reviews.filter(review => review.product?.id === product.id), query)));
+    this.on('POST', '/products/:product/reviews', ({ params, body, customer }) => this.withProduct(params.product, product => {
+      const rating = Number(body.rating);
+      if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+        return fail(422, 'The given data was invalid.', { rating: ['The rating must be between 1 and 5.'] });
+      }
+      const review = {
+        id: this.fixtures.reviews.length + 1,
+        rating,
+        comment: String(body.comment || ''),
+        reviewer: { id: customer!.id, name: `${customer!.firstName} ${customer!.lastName}` },
+        product: { id: product.id, name: product.name, slug: product.slug },
+        created_at: new Date().toISOString()
+      };
+      this.fixtures.reviews.push(review);
+      return ok(review, 'Review submitted', 201);
+    }), true);
+
+    this.on('GET', '/categories', () => ok(this.fixtures.categories));
+    this.on('GET', '/categories/:category', ({ params }) => {
+      const category = findBy(this.fixtures.categories, params.category);
+      return category ? ok(category) : fail(404, 'Category not found');
+    });
+    this.on('GET', '/categories/:category/products', ({ params, query }) => {
+      const category = findBy(this.fixtures.categories, params.category);
+      return category
+        ? paginate(this.filterProducts(this.fixtures.products.filter(product => product.category?.id === category.id), query), query)
+        : fail(404, 'Category not found');
+    });
+
+    this.on('GET', '/reviews', ({ query }) => {
+      const rating = query.get('rating');
+      return paginate(this.fixtures.reviews.filter(review => !rating || review.rating === Number(rating)), query);
+    });
+    this.on('GET', '/reviews/recent', ({ query }) =>
+      ok([...this.fixtures.reviews].sort((a, b) => b.created_at.localeCompare(a.created_at)).slice(0, limit(query, 6))));
+    this.on('GET', '/reviews/stats', () => {
+      const count = this.fixtures.reviews.length;
+      const total = this.fixtures.reviews.reduce((sum, review) => sum + review.rating, 0);
+      return ok({ count, average: count ? Math.round((total / count) * 10) / 10 : 0 });
+    });
+
+    this.on('GET', '/components', () => ok(this.fixtures.components));
+    this.on('GET', '/components/:id', ({ params }) => {
+      const component = this.fixtures.components.find(item => item.id === Number(params.id));
+      return component ? ok(component) : fail(404, 'Component not found');
+    });
+    this.on('GET', '/components/:id/products', ({ params, query }) => {
+      const component = this.fixtures.components.find(item => item.id === Number(params.id));
+      return component
+        ? paginate(this.fixtures.products.filter(product => component.product_ids.includes(product.id)), query)
+        : fail(404, 'Component not found');
+    });
+
+    this.on('GET', '/pages', () => ok(this.fixtures.pages.filter(page => page.is_active)));
+    this.on('GET', '/pages/:url', ({ params }) => {
+      const page = this.fixtures.pages.find(item => item.url === params.url && item.is_active);
+      return page ? ok(page) : fail(404, 'Page not found');
+    });
+
+    // Cart (keyed by X-Cart-Token, a new cart is issued when the header is missing or unknown)
+    this.on('GET', '/cart', ({ headers }) => ok(this.cartView(this.cart(headers))));
+    this.on('GET', '/cart/count', ({ headers }) => {
+      const cart = this.cart(headers);
+      return ok({ count: countItems(cart), cart_token: cart.token });
+    });
+    this.on('GET', '/cart/summary', ({ headers }) => {
+      const view = this.cartView(this.cart(headers));
+      return ok({ subtotal: view.subtotal, tax: 0, shipping: 0, discount: view.discount_amount, total: view.total });
+    });
+    this.on('GET', '/cart/validate', ({ headers }) => {
+      const errors = this.cart(headers).items
+        .filter(item => (item.product.stock ?? Infinity) < item.quantity)
+        .map(item => `${item.product.name} is out of stock`);
+      return ok(errors.length ? { valid: false, errors } : { valid: true });
+    });
+    this.on('POST', '/cart/add', ({ headers, body }) => {
+      const product = this.fixtures.products.find(item => item.id === Number(body.product_id));
+      if (!product) {
+        return fail(422, 'The given data was invalid.', { product_id: ['The selected product id is invalid.'] });
+      }
+      const quantity = Number(body.qty ?? 1);
+      if (!Number.isInteger(quantity) || quantity < 1) {
+        return fail(422, 'The given data was invalid.', { qty: ['The qty must be at least 1.'] });
+      }
+      if (product.stock !== undefined && product.stock < quantity) {
+        return fail(422, 'Product is out of stock', { product_id: ['Product is out of stock'] });
+      }
+
+      const cart = this.cart(headers);
+      const existing = cart.items.find(item => item.product_id === product.id);
+      if (existing) {
+        existing.quantity += quantity;
+        existing.total = existing.price * existing.quantity;
+      } else {
+        cart.items.push({ id: ++this.sequence, product_id: product.id, product, quantity, price: product.price, total: product.price * quantity });
+      }
+      return ok(this.cartView(cart), 'Product added to cart');
+    });
+    this.on('PATCH', '/cart/items/:item', ({ headers, params, body }) => this.withCartItem(headers, params.item, (cart, item) => {
+      const quantity = Number(body.quantity);
+      if (!Number.isInteger(quantity) || quantity < 1) {
+        return fail(422, 'The given data was invalid.', { quantity: ['The quantity must be at least 1.'] });
+      }
+      item.quantity = quantity;
+      item.total = item.price * quantity;
+      return ok(this.cartView(cart));
+    }));
+    this.on('DELETE', '/cart/items/:item', ({ headers, params }) => this.withCartItem(headers, params.item, (cart, item) => {
+      cart.items.splice(cart.items.indexOf(item), 1);
+      return ok(this.cartView(cart));
+    }));
+    this.on('DELETE', '/cart/clear', ({ headers }) => {
+      const cart = this.cart(headers);
+      cart.items = [];
+      cart.coupon = undefined;
+      return ok(this.cartView(cart), 'Cart cleared');
+    });
+    this.on('POST', '/cart/coupon', ({ headers, body }) => {
+      const code = String(body.coupon || '').toUpperCase();
+      if (!(code in this.fixtures.coupons)) {
+        return fail(422, 'Invalid coupon code', { coupon: ['Invalid coupon code'] });
+      }
+      const cart = this.cart(headers);
+      cart.coupon = code;
+      return ok(this.cartView(cart), 'Coupon applied');
+    });
+    this.on('DELETE', '/cart/coupon', ({ headers }) => {
+      const cart = this.cart(headers);
+      cart.coupon = undefined;
+      return ok(this.cartView(cart), 'Coupon removed');
+    });
+
+    // Phone auth (`/auth/start`, `/auth/verify` and `/auth/resend` are the legacy client's paths)
+    const start = ({ body }: RouteContext) => {
+      if (!body.phone || !body.country_code) {
+        return fail(422, 'The given data was invalid.', {
+          ...(body.phone ? {} : { phone: ['The phone field is required.'] }),
+          ...(body.country_code ? {} : { country_code: ['The country code field is required.'] })
+        });
+      }
+      const sessionToken = this.id('session');
+      this.authSessions.set(sessionToken, { phone: String(body.phone), countryCode: String(body.country_code), verified: false });
+      return ok({ session_token: sessionToken }, 'OTP sent');
+    };
+    const verify = ({ body }: RouteContext) => {
+      const session = this.authSessions.get(body.session_token);
+      if (!session) {
+        return fail(422, 'Invalid or expired session', { session_token: ['Invalid or expired session'] });
+      }
+      if (String(body.code ?? body.otp) !== this.options.otpCode) {
+        return fail(422, 'Invalid OTP code', { code: ['Invalid OTP code'] });
+      }
+
+      session.verified = true;
+      const customer = this.fixtures.customers.find(item => item.phone === session.phone && item.countryCode === session.countryCode);
+      if (!customer) {
+        return ok({ type: 'new', requires_registration: true, session_token: body.session_token });
+      }
+
+      this.authSessions.delete(body.session_token);
+      return ok({ type: 'authenticated', token: this.login(customer.id), customer: toCustomer(customer) });
+    };
+    const resend = () => ok(null, 'OTP resent');
+
+    this.on('POST', '/auth/phone/start', start);
+    this.on('POST', '/auth/start', start);
+    this.on('POST', '/auth/phone/verify', verify);
+    this.on('POST', '/auth/verify', verify);
+    this.on('POST', '/auth/phone/resend', resend);
+    this.on('POST', '/auth/resend', resend);
+    this.on('POST', '/auth/complete', ({ body }) => {
+      const session = this.authSessions.get(body.session_token);
+      if (!session?.verified) {
+        return fail(422, 'Invalid or expired session', { session_token: ['Invalid or expired session'] });
+      }
+
+      const data = body.initData || {};
+      const firstName = body.firstName ?? data.first_name;
+      const lastName = body.lastName ?? data.last_name;
+      const email = body.email ?? data.email;
+      if (!firstName || !lastName || !email) {
+        return fail(422, 'The given data was invalid.', {
+          ...(firstName ? {} : { firstName: ['The first name field is required.'] }),
+          ...(lastName ? {} : { lastName: ['The last name field is required.'] }),
+          ...(email ? {} : { email: ['The email field is required.'] })
+        });
+      }
+
+      const customer: FakeCustomer = {
+        id: Math.max(0, ...this.fixtures.customers.map(item => item.id)) + 1,
+        firstName,
+        lastName,
+        email,
+        phone: session.phone,
+        countryCode: session.countryCode
+      };
+      this.fixtures.customers.push(customer);
+      this.authSessions.delete(body.session_token);
+      return ok({ type: 'registered', token: this.login(customer.id), customer: toCustomer(customer) }, 'Registration completed', 201);
+    });
+
+    // Customer
+    this.on('GET', '/customer/profile', ({ customer }) => ok(toCustomer(customer!)), true);
+    this.on('PATCH', '/customer/profile', ({ customer, body }) => {
+      for (const field of ['firstName', 'lastName', 'email', 'phone'] as const) {
+        if (typeof body[field] === 'string') {
+          customer![field] = body[field];
+        }
+      }
+      if (body.avatar && typeof body.avatar === 'object') {
+        (customer as FakeCustomer & { avatar?: string }).avatar = `https://cdn.storefront.test/avatars/${encodeURIComponent(body.avatar.name || 'avatar')}`;
+      }
+      return ok(toCustomer(customer!), 'Profile updated');
+    }, true);
+    this.on('POST', '/customer/logout', ({ headers }) => {
+      this.tokens.delete(headers.get('Authorization')!.replace(/^Bearer\s+/i, ''));
+      return ok(null, 'Logged out');
+    }, true);
+    this.on('GET', '/customer/orders', ({ customer, query }) =>
+      paginate(this.fixtures.orders.filter(order => order.customer_id === customer!.id), query), true);
+    this.on('GET', '/customer/orders/:id', ({ customer, params }) => {
+      const order = this.fixtures.orders.find(item => item.id === Number(params.id) && item.customer_id === customer!.id);
+      return order ? ok(order) : fail(404, 'Order not found');
+    }, true);
+    this.on('GET', '/customer/subscriptions', () => ok([]), true);
+    this.on('GET', '/customer/courses', () => ok(this.fixtures.courses), true);
+    this.on('GET', '/customer/courses/:course', ({ params }) => this.withCourse(params.course, course => ok(course)), true);
+    this.on('GET', '/customer/courses/:course/modules/:module', ({ params }) =>
+      this.withModule(params.course, params.module, (_, module) => ok(module)), true);
+
+    // Courses
+    this.on('GET', '/courses', ({ query }) => paginate(this.fixtures.courses, query), true);
+    this.on('GET', '/courses/:course', ({ params }) => this.withCourse(params.course, course => ok(course)), true);
+    this.on('GET', '/courses/:course/modules/:module', ({ params }) =>
+      this.withModule(params.course, params.module, (_, module) => ok(module)), true);
+    this.on('GET', '/courses/:course/progress', ({ params, customer }) => this.withCourse(params.course, course => {
+      const completed = this.completedModules.get(`${customer!.id}:${course.id}`)?.size || 0;
+      return ok({
+        course_id: course.id,
+        completed_modules: completed,
+        total_modules: course.modules.length,
+        progress_percentage: course.modules.length ? Math.round((completed / course.modules.length) * 100) : 0
+      });
+    }), true);
+    this.on('POST', '/courses/:course/modules/:module/complete', ({ params, customer }) =>
+      this.withModule(params.course, params.module, (course, module) => {
+        const key = `${customer!.id}:${course.id}`;
+        this.completedModules.set(key, (this.completedModules.get(key) || new Set()).add(module.id));
+        return ok({ success: true }, 'Module completed');
+      }), true);
+
+    // Wishlist
+    this.on('GET', '/wishlist', ({ customer }) => {
+      const items = this.fixtures.products.filter(product => this.wishlist(customer!).has(product.id));
+      return ok({ items, count: items.length });
+    }, true);
+    this.on('GET', '/wishlist/count', ({ customer }) => ok({ count: this.wishlist(customer!).size }), true);
+    this.on('GET', '/wishlist/check/:product', ({ customer, params }) =>
+      ok({ in_wishlist: this.wishlist(customer!).has(Number(params.product)) }), true);
+    this.on('POST', '/wishlist', ({ customer, body }) => this.withProduct(String(body.product_id), product => {
+      this.wishlist(customer!).add(product.id);
+      return ok(null, 'Added to wishlist');
+    }), true);
+    this.on('DELETE', '/wishlist/clear', ({ customer }) => {
+      this.wishlist(customer!).clear();
+      return ok(null, 'Wishlist cleared');
+    }, true);
+    this.on('DELETE', '/wishlist/:product', ({ customer, params }) => {
+      this.wishlist(customer!).delete(Number(params.product));
+      return ok(null, 'Removed from wishlist');
+    }, true);
+
+    // Checkout
+    this.on('POST', '/checkout', ({ headers, customer }) => {
+      const cart = this.cart(headers);
+      if (!cart.items.length) {
+        return fail(422, 'Cart is empty');
+      }
+
+      const view = this.cartView(cart);
+      const order = {
+        id: Math.max(1000, ...this.fixtures.orders.map(item => item.id)) + 1,
+        customer_id: customer!.id,
+        status: view.total === 0 ? 'completed' : 'pending',
+        items: cart.items.map(item => ({ id: item.id, product: item.product, quantity: item.quantity, price: item.price })),
+        total: view.total,
+        created_at: new Date().toISOString()
+      };
+      this.fixtures.orders.push(order);
+
+      if (view.total === 0) {
+        this.carts.delete(cart.token);
+        return ok({ type: 'free_order', order_id: order.id });
+      }
+
+      const checkoutId = this.id('checkout');
+      this.checkouts.set(checkoutId, { id: checkoutId, order, cartToken: cart.token });
+      return ok({
+        type: 'payment_required',
+        checkout_id: checkoutId,
+        checkout_url: `${new URL(this.baseUrl).origin}/pay/${checkoutId}`,
+        order_id: order.id,
+        amount: view.total
+      });
+    }, true);
+    this.on('GET', '/checkout/:id/result', ({ params, customer }) => {
+      const checkout = this.checkouts.get(params.id);
+      if (!checkout || checkout.order.customer_id !== customer!.id) {
+        return fail(404, 'Checkout session not found');
+      }
+      return ok({ status: checkout.order.status, order: checkout.order });
+    }, true);
+  }
+
+  private filterProducts(products: Product[], query: URLSearchParams): Product[] {
+    const category = query.get('category');
+    const search = query.get('search')?.toLowerCase();
+    const min = query.get('price_min');
+    const max = query.get('price_max');
+
+    const filtered = products.filter(product =>
+      (!category || product.category?.slug === category || product.category?.id === Number(category)) &&
+      (!search || product.name.toLowerCase().includes(search)) &&
+      (min === null || product.price >= Number(min)) &&
+      (max === null || product.price <= Number(max)));
+
+    const [field, direction] = (query.get('sort') || '').split(/[_:]/);
+    if (field === 'price' || field === 'name') {
+      const sign = direction === 'desc' ? -1 : 1;
+      filtered.sort((a, b) => (a[field] < b[field] ? -sign : a[field] > b[field] ? sign : 0));
+    }
+
+    return filtered;
+  }
+
+  private withProduct(key: string, handler: (product: Product) => Response): Response {
+    const product = findBy(this.fixtures.products, key);
+    return product ? handler(product) : fail(404, 'Product not found');
+  }
+
+  private withCourse(key: string, handler: (course: FakeFixtures['courses'][number]) => Response): Response {
+    const course = this.fixtures.courses.find(item => item.id === Number(key));
+    return course ? handler(course) : fail(404, 'Course not found');
+  }
+
+  private withModule(
+    courseKey: string,
+    moduleKey: string,
+    handler: (course: FakeFixtures['courses'][number], module: FakeFixtures['courses'][number]['modules'][number]) => Response
+  ): Response {
+    return this.withCourse(courseKey, course => {
+      const module = course.modules.find(item => item.id === Number(moduleKey));
+      return module ? handler(course, module) : fail(404, 'Module not found');
+    });
+  }
+
+  private cart(headers: Headers): FakeCart {
+    const token = headers.get('X-Cart-Token');
+    let cart = token ? this.carts.get(token) : undefined;
+
+    if (!cart) {
+      cart = { token: token || this.id('cart'), items: [] };
+      this.carts.set(cart.token, cart);
+    }
+
+    return cart;
+  }
+
+  private withCartItem(headers: Headers, key: string, handler: (cart: FakeCart, item: CartItem) => Response): Response {
+    const cart = this.cart(headers);
+    // The SDK addresses items by cart item id, the legacy client by product id
+    const item = cart.items.find(entry => entry.id === Number(key)) || cart.items.find(entry => entry.product_id === Number(key));
+    return item ? handler(cart, item) : fail(404, 'Cart item not found');
+  }
+
+  private cartView(cart: FakeCart): Cart & { cart_token: string; discount_amount: number; coupon?: { code: string; discount: number; type: 'percent' } } {
+    const subtotal = cart.items.reduce((sum, item) => sum + item.total, 0);
+    const percent = cart.coupon ? this.fixtures.coupons[cart.coupon] : 0;
+    const discount = Math.round(subtotal * percent) / 100;
+
+    return {
+      cart_token: cart.token,
+      items: cart.items,
+      count: countItems(cart),
+      subtotal,
+      discount_amount: discount,
+      total: subtotal - discount,
+      currency: this.fixtures.store.currency,
+      ...(cart.coupon ? { coupon: { code: cart.coupon, discount: percent, type: 'percent' as const } } : {})
+    };
+  }
+
+  private wishlist(customer: FakeCustomer): Set<number> {
+    let items = this.wishlists.get(customer.id);
+    if (!items) {
+      items = new Set();
+      this.wishlists.set(customer.id, items);
+    }
+    return items;
+  }
+
+  private id(prefix: string): string {
+    return `${prefix}_${(++this.sequence).toString(36)}${Math.random().toString(36).slice(2, 10)}`;
+  }
+}
+
+/**
+ * Create a fake Storefront API, e.g. `new SecureStorefrontSDK({ ..., transport: fake.fetch })`
+ */
+export function createFakeStorefront(options?: FakeStorefrontOptions): FakeStorefront {
+  return new FakeStorefront(options);
+}
+
+function json(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), { status, headers: { 'Content-Type': 'application/json' } });
+}
+
+function ok(data: unknown, message?: string, status = 200): Response {
+  return json(status, { success: true, data, ...(message ? { message } : {}) });
+}
+
+function fail(status: number, message: string, errors?: Record<string, string[]>): Response {
+  return json(status, { success: false, message, ...(errors ? { errors } : {}) });
+}
+
+function paginate<T>(items: T[], query: URLSearchParams): Response {
+  const perPage = Math.max(1, Number(query.get('per_page')) || DEFAULT_PER_PAGE);
+  const lastPage = Math.max(1, Math.ceil(items.length / perPage));
+  const currentPage = Math.max(1, Number(query.get('page')) || 1);
+  const data = items.slice((currentPage - 1) * perPage, currentPage * perPage);
+  const from = data.length ? (currentPage - 1) * perPage + 1 : null;
+
+  return json(200, {
+    success: true,
+    data,
+    pagination: {
+      current_page: currentPage,
+      last_page: lastPage,
+      per_page: perPage,
+      total: items.length,
+      from,
+      to: from === null ? null : from + data.length - 1,
+      has_more_pages: currentPage < lastPage,
+      next_page_url: null,
+      prev_page_url: null
+    }
+  });
+}
+
+/**
+ * Parse a JSON or multipart body (files stay File instances)
+ */
+async function readBody(request: Request): Promise<Record<string, any>> {
+  if ((request.headers.get('Content-Type') || '').includes('multipart/form-data')) {
+    const body: Record<string, any> = {};
+    (await request.formData()).forEach((value, name) => {
+      body[name] = value;
+    });
+    return body;
+  }
+
+  const text = await request.text();
+  try {
+    const parsed = text ? JSON.parse(text) : {};
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+function toRecord(entries: { forEach(callback: (value: string, key: string) => void): void }): Record<string, string> {
+  const record: Record<string, string> = {};
+  entries.forEach((value, key) => {
+    record[key] = value;
+  });
+  return record;
+}
+
+function findBy<T extends { id: number; slug: string }>(items: T[], key: string): T | undefined {
+  return /^\d+$/.test(key) ? items.find(item => item.id === Number(key)) : items.find(item => item.slug === key);
+}
+
+function limit(query: URLSearchParams, fallback: number): number {
+  return Math.max(1, Number(query.get('limit')) || fallback);
+}
+
+function countItems(cart: FakeCart): number {
+  return cart.items.reduce((sum, item) => sum + item.quantity, 0);
+}
+
+function toCustomer(customer: FakeCustomer): Customer {
+  return { id: customer.id, firstName: customer.firstName, lastName: customer.lastName, email: customer.email, phone: customer.phone };
+}
+
+function clone<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value));
+}
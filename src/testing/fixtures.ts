@@ -0,0 +1,127 @@
+/**
+ * Fixtures - Seed data for the fake Storefront API
+ */
+
+import type { Product, Category, Store, Customer, Order, Review, Page, Course } from '../secure-storefront-sdk';
+
+export interface FakeCustomer extends Customer {
+  countryCode: string; // Phone auth looks customers up by country code + phone
+}
+
+export interface FakeFixtures {
+  store: Store;
+  categories: Category[];
+  products: Product[];
+  reviews: Review[];
+  pages: Page[];
+  courses: Course[];
+  customers: FakeCustomer[];
+  orders: Array<Order & { customer_id: number }>;
+  coupons: Record<string, number>; // Coupon code -> discount percentage
+  components: Array<{ id: number; type: string; title: string; product_ids: number[] }>;
+}
+
+/**
+ * Fresh copy of the default seed data (safe to mutate)
+ */
+export function defaultFixtures(): FakeFixtures {
+  const categories: Category[] = [
+    { id: 1, name: 'Games', slug: 'games', description: 'Game keys and gift cards' },
+    { id: 2, name: 'Software', slug: 'software', description: 'Licenses and subscriptions' },
+    { id: 3, name: 'Courses', slug: 'courses', description: 'Online courses' }
+  ];
+
+  const product = (id: number, name: string, price: number, category: Category, extra: Partial<Product> = {}): Product => ({
+    id,
+    name,
+    slug: name.toLowerCase().replace(/[^a-z0-9]+/g, '-'),
+    description: `${name} description`,
+    price,
+    image: { url: `https://cdn.storefront.test/products/${id}.png`, alt: name },
+    category,
+    is_featured: false,
+    stock: 100,
+    ...extra
+  });
+
+  const products: Product[] = [
+    product(1, 'Steam Gift Card 50', 50, categories[0], { is_featured: true }),
+    product(2, 'Steam Gift Card 100', 100, categories[0], { is_featured: true }),
+    product(3, 'PlayStation Plus 12 Months', 240, categories[0]),
+    product(4, 'Xbox Game Pass 3 Months', 90, categories[0], { stock: 0 }),
+    product(5, 'Office 365 Personal', 299, categories[1], { is_featured: true }),
+    product(6, 'Antivirus Pro 1 Year', 120, categories[1]),
+    product(7, 'VPN Premium 1 Year', 180, categories[1]),
+    product(8, 'TypeScript Masterclass', 0, categories[2], { is_featured: true })
+  ];
+
+  const customers: FakeCustomer[] = [
+    { id: 1, firstName: 'Sara', lastName: 'Ahmed', email: 'sara@example.com', phone: '500000001', countryCode: '966' }
+  ];
+
+  const reviews: Review[] = [1, 2, 5].map((productId, index) => ({
+    id: index + 1,
+    rating: 5 - index,
+    comment: `Review ${index + 1}`,
+    reviewer: { id: 1, name: 'Sara Ahmed' },
+    product: { id: productId, name: products[productId - 1].name, slug: products[productId - 1].slug },
+    created_at: '2024-01-0' + (index + 1) + 'T10:00:00Z'
+  }));
+
+  const orders = [
+    {
+      id: 1001,
+      customer_id: 1,
+      status: 'completed',
+      items: [{ id: 1, product: products[0], quantity: 2, price: 50 }],
+      total: 100,
+      created_at: '2024-01-10T12:00:00Z'
+    },
+    {
+      id: 1002,
+      customer_id: 1,
+      status: 'completed',
+      items: [{ id: 2, product: products[4], quantity: 1, price: 299 }],
+      total: 299,
+      created_at: '2024-02-10T12:00:00Z'
+    }
+  ];
+
+  const courses: Course[] = [
+    {
+      id: 1,
+      title: 'TypeScript Masterclass',
+      description: 'From basics to advanced types',
+      modules: [
+        { id: 1, title: 'Getting Started', content: 'Install TypeScript', order: 1 },
+        { id: 2, title: 'Types', content: 'Primitive and object types', order: 2 },
+        { id: 3, title: 'Generics', content: 'Reusable typed code', order: 3 }
+      ]
+    }
+  ];
+
+  return {
+    store: {
+      id: 1,
+      name: 'Fake Store',
+      description: 'In-memory storefront for tests',
+      logo: 'https://cdn.storefront.test/logo.png',
+      currency: 'SAR',
+      settings: { language: 'en', tax_rate: 0.15 }
+    },
+    categories,
+    products,
+    reviews,
+    pages: [
+      { id: 1, title: 'About Us', url: 'about', content: '<p>About</p>', is_active: true },
+      { id: 2, title: 'Terms', url: 'terms', content: '<p>Terms</p>', is_active: true }
+    ],
+    courses,
+    customers,
+    orders,
+    coupons: { SAVE10: 10 },
+    components: [
+      { id: 1, type: 'products', title: 'Best Sellers', product_ids: [1, 2, 5] }
+    ]
+  };
+}
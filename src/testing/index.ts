@@ -0,0 +1,12 @@
+/**
+ * Testing - Offline fake of the Storefront API and record/replay of real traffic
+ *
+ *   import { createFakeStorefront } from '@rmz/storefront-sdk/testing';
+ */
+
+export { FakeStorefront, createFakeStorefront } from './fake-server';
+export type { FakeStorefrontOptions, FakeRequestRecord } from './fake-server';
+export { defaultFixtures } from './fixtures';
+export type { FakeFixtures, FakeCustomer } from './fixtures';
+export { Vcr, CassetteMissError, createVcr } from './vcr';
+export type { VcrMode, VcrOptions, Cassette, CassetteInteraction } from './vcr';
@@ -0,0 +1,157 @@
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createVcr, CassetteMissError, type Cassette } from './vcr';
+import { createFakeStorefront } from './fake-server';
+import { SecureStorefrontSDK } from '../secure-storefront-sdk';
+
+/**
+ * Transport answering each call with the next scripted body (the last one repeats)
+ */
+function scripted(...bodies: unknown[]) {
+  const calls: string[] = [];
+  const transport = async (url: string) => {
+    const body = bodies[Math.min(calls.length, bodies.length - 1)];
+    calls.push(url);
+    return new Response(JSON.stringify(body), { headers: { 'Content-Type': 'application/json', 'Date': 'Mon, 19 Oct 2026 12:00:00 GMT' } });
+  };
+  return { transport, calls };
+}
+
+const offline = async (): Promise<Response> => {
+  throw new Error('network used during replay');
+};
+
+describe('Vcr', () => {
+  it('replays what was recorded through the SDK without touching the network', async () => {
+    const fake = createFakeStorefront();
+    const config = { apiUrl: fake.baseUrl, publicKey: 'pk_test', secretKey: 'sk_test', maxRetries: 0 };
+    const recorder = createVcr({ mode: 'record', transport: fake.fetch });
+    const recording = new SecureStorefrontSDK({ ...config, transport: recorder.fetch });
+    const products = await recording.products.getAll({ per_page: 2 });
+    const cart = await recording.cart.addItem(1, 2);
+
+    const player = createVcr({ mode: 'replay', cassette: recorder.toJSON(), transport: offline });
+    const replaying = new SecureStorefrontSDK({ ...config, transport: player.fetch });
+
+    await expect(replaying.products.getAll({ per_page: 2 })).resolves.toEqual(products);
+    await expect(replaying.cart.addItem(1, 2)).resolves.toEqual({ ...cart, cart_token: '[REDACTED]' });
+    await expect(replaying.products.getAll({ per_page: 3 })).rejects.toBeInstanceOf(CassetteMissError);
+  });
+
+  it('matches on sorted query and normalized JSON body, ignoring headers', async () => {
+    const { transport } = scripted({ success: true, data: 'recorded' });
+    const vcr = createVcr({ mode: 'record', transport });
+    await vcr.fetch('http://storefront.test/api/cart/add?b=2&a=1', { method: 'POST', body: '{"qty":1,"product_id":7}', headers: { 'X-Timestamp': '1' } });
+
+    const player = createVcr({ mode: 'replay', cassette: vcr.toJSON() });
+    const response = await player.fetch('http://storefront.test/api/cart/add?a=1&b=2', { method: 'POST', body: '{"product_id":7,"qty":1}', headers: { 'X-Timestamp': '2' } });
+
+    expect(await response.json()).toEqual({ success: true, data: 'recorded' });
+    await expect(player.fetch('http://storefront.test/api/cart/add?a=1&b=2', { method: 'POST', body: '{"product_id":7,"qty":2}' }))
+      .rejects.toThrow('No recorded interaction for POST /api/cart/add?a=1&b=2');
+  });
+
+  it('replays repeated requests in order, then repeats the last response', async () => {
+    const { transport } = scripted({ count: 1 }, { count: 2 });
+    const vcr = createVcr({ mode: 'record', transport });
+    await vcr.fetch('http://storefront.test/api/cart');
+    await vcr.fetch('http://storefront.test/api/cart');
+
+    const player = createVcr({ mode: 'replay', cassette: vcr.toJSON() });
+    const counts = [];
+    for (let i = 0; i < 3; i++) {
+      counts.push((await (await player.fetch('http://storefront.test/api/cart')).json()).count);
+    }
+
+    expect(counts).toEqual([1, 2, 2]);
+  });
+
+  it('records only unmatched requests in auto mode', async () => {
+    const { transport, calls } = scripted({ ok: true });
+    const cassette: Cassette = { version: 1, interactions: [] };
+    const vcr = createVcr({ cassette, transport });
+
+    await vcr.fetch('http://storefront.test/api/store');
+    await vcr.fetch('http://storefront.test/api/store');
+    await vcr.fetch('http://storefront.test/api/categories');
+
+    expect(calls).toEqual(['http://storefront.test/api/store', 'http://storefront.test/api/categories']);
+    expect(vcr.interactions).toHaveLength(2);
+  });
+
+  it('drops volatile headers and redacts secrets before recording', async () => {
+    const transport = async () => new Response(JSON.stringify({ success: true, data: { token: 'tok_live', customer: { email: 'sara@example.com' } } }), {
+      headers: { 'Content-Type': 'application/json', 'Date': 'Mon, 19 Oct 2026 12:00:00 GMT' }
+    });
+    const vcr = createVcr({ mode: 'record', transport, secrets: ['pk_live_123'] });
+
+    await vcr.fetch('http://storefront.test/api/auth/phone/verify?key=pk_live_123', {
+      method: 'POST',
+      body: JSON.stringify({ code: '123456', phone: '500000001' }),
+      headers: {
+        'Authorization': 'Bearer tok_live',
+        'X-Public-Key': 'pk_live_123',
+        'X-Timestamp': '1760875200',
+        'X-Signature': 'f00d',
+        'X-Nonce': 'n-1',
+        'Idempotency-Key': 'k-1',
+        'traceparent': '00-4bf92f3577b34da6a3ce929d0e0e4736-00f067aa0ba902b7-01'
+      }
+    });
+
+    const [{ request, response }] = vcr.interactions;
+    expect(request.headers).toEqual({ 'authorization': '[REDACTED]', 'x-public-key': '[REDACTED]' });
+    expect(request.query).toEqual({ key: '[REDACTED]' });
+    expect(request.body).toEqual({ code: '[REDACTED]', phone: '[REDACTED]' });
+    expect(response.headers).toEqual({ 'content-type': 'application/json' });
+    expect(response.body).toEqual({ success: true, data: { token: '[REDACTED]', customer: { email: '[REDACTED]' } } });
+    expect(JSON.stringify(vcr.toJSON())).not.toMatch(/tok_live|pk_live_123|123456|500000001|sara@example.com/);
+  });
+
+  it('stores binary responses base64-encoded', async () => {
+    const bytes = new Uint8Array([0x25, 0x50, 0x44, 0x46, 0x00, 0xff]);
+    const vcr = createVcr({ mode: 'record', transport: async () => new Response(bytes, { headers: { 'Content-Type': 'application/pdf' } }) });
+    await vcr.fetch('http://storefront.test/api/downloads/7');
+
+    expect(vcr.interactions[0].response).toMatchObject({ body: 'JVBERgD/', encoding: 'base64' });
+    const replayed = await createVcr({ mode: 'replay', cassette: vcr.toJSON() }).fetch('http://storefront.test/api/downloads/7');
+    expect(new Uint8Array(await replayed.arrayBuffer())).toEqual(bytes);
+  });
+
+  describe('cassette files', () => {
+    let dir: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'vcr-'));
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('saves recordings and loads them for replay', async () => {
+      const path = join(dir, 'cassettes', 'store.json');
+      const { transport } = scripted({ success: true, data: { name: 'Shop' } });
+      const recorder = createVcr({ mode: 'record', path, transport });
+      await recorder.fetch('http://storefront.test/api/store');
+      await recorder.save();
+
+      expect(JSON.parse(await readFile(path, 'utf8'))).toMatchObject({ version: 1, interactions: [{ request: { path: '/api/store' } }] });
+
+      const player = createVcr({ mode: 'replay', path });
+      await player.loaded();
+      expect(player.interactions).toHaveLength(1);
+      expect(await (await player.fetch('http://storefront.test/api/store')).json()).toEqual({ success: true, data: { name: 'Shop' } });
+    });
+
+    it('writes nothing when every request was replayed', async () => {
+      const path = join(dir, 'unused.json');
+      const vcr = createVcr({ path, cassette: { version: 1, interactions: [] }, transport: offline });
+
+      await vcr.save();
+
+      await expect(readFile(path, 'utf8')).rejects.toMatchObject({ code: 'ENOENT' });
+    });
+  });
+});
@@ -0,0 +1,346 @@
+/**
+ * VCR - Record real API traffic to JSON cassettes and replay it deterministically
+ *
+ * Plugs into either SDK as its `transport`. Requests match on method, path, sorted query and
+ * normalized body (JSON with sorted keys, multipart through its manifest); headers are ignored.
+ * Volatile headers are dropped and secrets redacted before anything reaches the cassette.
+ */
+
+import { StorefrontError } from '../core/errors';
+import { Environment } from '../core/environment';
+import { redact } from '../core/logger';
+import { isFormData, multipartManifest } from '../core/multipart';
+import type { HttpTransport } from '../core/http-client';
+
+/**
+ * - 'replay': never touch the network, unmatched requests throw `CassetteMissError`
+ * - 'record': always hit the network and record every interaction (replaces the cassette)
+ * - 'auto': replay matches, record the rest
+ */
+export type VcrMode = 'replay' | 'record' | 'auto';
+
+export interface CassetteInteraction {
+  request: {
+    method: string;
+    url: string;
+    path: string;
+    query: Record<string, string>;
+    headers: Record<string, string>;
+    body: unknown; // Redacted JSON, or the (multipart manifest) string
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: unknown; // Redacted JSON, text, or base64 for binary bodies
+    encoding?: 'base64';
+  };
+}
+
+export interface Cassette {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+export interface VcrOptions {
+  mode?: VcrMode; // Default: 'auto'
+  path?: string; // Cassette file (Node.js); loaded when it exists, written by save()
+  cassette?: Cassette; // In-memory cassette instead of a file
+  transport?: HttpTransport; // Real transport used while recording (default: global fetch)
+  secrets?: string[]; // Literal values (keys, tokens, passwords) replaced everywhere in the cassette
+}
+
+// Headers that change on every request (or with the signing setup) and never go into a cassette
+const VOLATILE_HEADERS = [
+  'x-timestamp',
+  'x-signature',
+  'x-nonce',
+  'x-key-id',
+  'x-signed-headers',
+  'idempotency-key',
+  'traceparent',
+  'tracestate',
+  'date'
+];
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * No recorded interaction matches a request in replay mode
+ */
+export class CassetteMissError extends StorefrontError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CassetteMissError';
+  }
+}
+
+export class Vcr {
+  readonly mode: VcrMode;
+  readonly path?: string;
+
+  private cassette: Cassette;
+  private transport?: HttpTransport;
+  private secrets: string[];
+  private used: Set<CassetteInteraction> = new Set();
+  private dirty = false;
+  private loading: Promise<void>;
+
+  constructor(options: VcrOptions = {}) {
+    this.mode = options.mode || 'auto';
+    this.path = options.path;
+    this.transport = options.transport;
+    this.secrets = (options.secrets || []).filter(Boolean);
+
+    this.cassette = options.cassette || { version: 1, interactions: [] };
+    this.dirty = this.mode === 'record';
+
+    // The cassette file is read in the background; requests wait for it
+    this.loading = !options.cassette && this.mode !== 'record' && options.path
+      ? readCassette(options.path).then(stored => {
+        if (stored) {
+          this.cassette = stored;
+        }
+      })
+      : Promise.resolve();
+    this.loading.catch(() => undefined);
+  }
+
+  /**
+   * Fetch-compatible transport: pass as `transport` to either SDK
+   */
+  fetch = async (input: string, init: RequestInit = {}): Promise<Response> => {
+    await this.loading;
+    const request = await this.describe(input, init);
+
+    if (this.mode !== 'record') {
+      const recorded = this.find(request);
+      if (recorded) {
+        return toResponse(recorded.response);
+      }
+      if (this.mode === 'replay') {
+        throw new CassetteMissError(`No recorded interaction for ${request.method} ${request.path}${formatQuery(request.query)}`);
+      }
+    }
+
+    const transport = this.transport || fetch;
+    const response = await transport(input, init);
+
+    const interaction = { request, response: await this.describeResponse(response.clone()) };
+    this.cassette.interactions.push(interaction);
+    this.used.add(interaction);
+    this.dirty = true;
+
+    return response;
+  };
+
+  /**
+   * Recorded interactions (those from the cassette file once `loaded()` resolves)
+   */
+  get interactions(): readonly CassetteInteraction[] {
+    return this.cassette.interactions;
+  }
+
+  toJSON(): Cassette {
+    return this.cassette;
+  }
+
+  /**
+   * Resolves once the cassette file has been read
+   */
+  loaded(): Promise<void> {
+    return this.loading;
+  }
+
+  /**
+   * Write the cassette to `path` (Node.js); a no-op when nothing was recorded
+   */
+  async save(path: string | undefined = this.path): Promise<void> {
+    if (!this.dirty) {
+      return;
+    }
+    if (!path) {
+      throw new Error('No cassette path to save to');
+    }
+
+    const fs = await loadFs();
+    const dir = path.replace(/[\\/][^\\/]*$/, '');
+    if (dir && dir !== path) {
+      await fs.mkdir(dir, { recursive: true });
+    }
+    await fs.writeFile(path, JSON.stringify(this.cassette, null, 2) + '\n');
+    this.dirty = false;
+  }
+
+  /**
+   * First unused interaction matching the request; repeats of an exhausted request replay its last response
+   */
+  private find(request: CassetteInteraction['request']): CassetteInteraction | undefined {
+    const key = matchKey(request);
+    const matches = this.cassette.interactions.filter(interaction => matchKey(interaction.request) === key);
+    const next = matches.find(interaction => !this.used.has(interaction)) || matches[matches.length - 1];
+
+    if (next) {
+      this.used.add(next);
+    }
+    return next;
+  }
+
+  private async describe(input: string, init: RequestInit): Promise<CassetteInteraction['request']> {
+    const url = new URL(input);
+    const query: Record<string, string> = {};
+    url.searchParams.forEach((value, key) => {
+      query[key] = this.scrub(redact({ [key]: value }) as Record<string, string>)[key];
+    });
+
+    const headers: Record<string, string> = {};
+    new Headers(init.headers).forEach((value, key) => {
+      if (!VOLATILE_HEADERS.includes(key)) {
+        headers[key] = value;
+      }
+    });
+
+    return {
+      method: (init.method || 'GET').toUpperCase(),
+      url: this.scrub(`${url.origin}${url.pathname}`),
+      path: url.pathname,
+      query,
+      headers: this.scrub(redact(headers)) as Record<string, string>,
+      body: await this.describeBody(init.body)
+    };
+  }
+
+  private async describeBody(body: RequestInit['body']): Promise<unknown> {
+    if (body === undefined || body === null || body === '') {
+      return '';
+    }
+    if (isFormData(body)) {
+      return this.scrub(redact(await multipartManifest(body)));
+    }
+    return this.scrub(redact(parseJson(String(body))));
+  }
+
+  private async describeResponse(response: Response): Promise<CassetteInteraction['response']> {
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      if (!VOLATILE_HEADERS.includes(key)) {
+        headers[key] = value;
+      }
+    });
+
+    const contentType = response.headers.get('Content-Type') || '';
+    const textual = !contentType || /json|text|xml|javascript|x-www-form-urlencoded/i.test(contentType);
+    const result: CassetteInteraction['response'] = {
+      status: response.status,
+      statusText: response.statusText,
+      headers: this.scrub(redact(headers)) as Record<string, string>,
+      body: ''
+    };
+
+    if (textual) {
+      result.body = this.scrub(redact(parseJson(await response.text())));
+    } else {
+      result.body = toBase64(new Uint8Array(await response.arrayBuffer()));
+      result.encoding = 'base64';
+    }
+
+    return result;
+  }
+
+  /**
+   * Replace the configured literal secrets anywhere in a value
+   */
+  private scrub<T>(value: T): T {
+    if (!this.secrets.length) {
+      return value;
+    }
+    if (typeof value === 'string') {
+      return this.secrets.reduce((text: string, secret) => text.split(secret).join(REDACTED), value) as unknown as T;
+    }
+    return JSON.parse(this.scrub(JSON.stringify(value)));
+  }
+}
+
+/**
+ * Create a record/replay transport, e.g. `new SecureStorefrontSDK({ ..., transport: vcr.fetch })`
+ */
+export function createVcr(options?: VcrOptions): Vcr {
+  return new Vcr(options);
+}
+
+function matchKey(request: CassetteInteraction['request']): string {
+  const body = typeof request.body === 'string' ? request.body : stableStringify(request.body);
+  return `${request.method} ${request.path}${formatQuery(request.query)}\n${body}`;
+}
+
+function formatQuery(query: Record<string, string>): string {
+  const entries = Object.keys(query).sort().map(key => `${encodeURIComponent(key)}=${encodeURIComponent(query[key])}`);
+  return entries.length ? `?${entries.join('&')}` : '';
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    return `{${Object.keys(record).sort().map(key => `${JSON.stringify(key)}:${stableStringify(record[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value) ?? 'null';
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function toResponse(recorded: CassetteInteraction['response']): Response {
+  let body: BodyInit | null;
+  if (recorded.encoding === 'base64') {
+    body = fromBase64(String(recorded.body));
+  } else {
+    body = typeof recorded.body === 'string' ? recorded.body : JSON.stringify(recorded.body);
+  }
+
+  // Null-body statuses can't carry a body
+  if ([101, 204, 205, 304].includes(recorded.status)) {
+    body = null;
+  }
+
+  return new Response(body, { status: recorded.status, statusText: recorded.statusText, headers: recorded.headers });
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), char => char.charCodeAt(0));
+}
+
+async function readCassette(path: string): Promise<Cassette | undefined> {
+  const fs = await loadFs();
+  try {
+    return JSON.parse(await fs.readFile(path, 'utf8'));
+  } catch (error) {
+    if ((error as { code?: string }).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+}
+
+// A dynamic import works from both the CommonJS and the ES module build
+async function loadFs(): Promise<typeof import('fs/promises')> {
+  if (!Environment.info.isNode) {
+    throw new Error('Cassette files need Node.js; pass `cassette` instead');
+  }
+  return import('fs/promises');
+}
@@ -98,7 +98,7 @@ export interface ProductImage {
 
 export interface CustomField {
   name: string;
-  type: 'text' | 'textarea' | 'select';
+  type: 'text' | 'textarea' | 'select' | 'file';
   required: boolean;
   options?: Record<string, { name: string; price?: number }>;
 }
@@ -1,4 +1,10 @@
 import { ApiResponse } from '../types';
+import type { HttpTransport } from '../core/http-client';
+import { StorefrontError, NetworkError, RateLimitError, createHttpError, parseRetryAfter } from '../core/errors';
+import { createRedactingLogger, noopLogger, type Logger, type LogLevel } from '../core/logger';
+import { assertSuccess } from '../core/envelope';
+import { hasFiles, isFormData, multipartManifest, spoofMethod, toFormData } from '../core/multipart';
+import { SecurityManager } from '../core/security';
 
 export interface HttpClientConfig {
   baseURL: string;
@@ -7,6 +13,10 @@ export interface HttpClientConfig {
   timeout?: number;
   headers?: Record<string, string>;
   environment?: 'production' | 'development';
+  transport?: HttpTransport; // Defaults to the global fetch
+  logger?: Logger; // Silent unless provided; fields are redacted
+  logLevel?: LogLevel; // Minimum level passed to the logger (default: 'debug')
+  signatureVersion?: 'v1' | 'v2'; // 'v2' also signs the host, the canonical query and the auth, cart and content-type headers (default: 'v1')
 }
 
 interface RequestOptions {
@@ -17,9 +27,7 @@ interface RequestOptions {
 
 export class HttpClient {
   private config: HttpClientConfig;
-  private readonly SIGNATURE_VERSION = 'v1';
-  private authToken?: string;
-  private cartToken?: string;
+  private security: SecurityManager; // Signs with the same scheme as SecureStorefrontSDK
 
   constructor(config: HttpClientConfig) {
     this.config = config;
@@ -27,75 +35,34 @@ export class HttpClient {
     if (!config.publicKey || !config.secretKey) {
       throw new Error('Both publicKey and secretKey are required for HMAC authentication');
     }
+
+    this.security = new SecurityManager({
+      publicKey: config.publicKey,
+      secretKey: config.secretKey,
+      signatureVersion: config.signatureVersion || 'v1',
+      timestampTolerance: 300,
+      logger: config.logger ? createRedactingLogger(config.logger, config.logLevel) : noopLogger
+    });
   }
 
   // Set authentication token
   setAuthToken(token: string) {
-    this.authToken = token;
+    this.security.setAuthToken(token);
   }
 
   // Clear authentication token
   clearAuthToken() {
-    this.authToken = undefined;
+    this.security.setAuthToken(null);
   }
 
   // Set cart token
   setCartToken(token: string) {
-    this.cartToken = token;
+    this.security.setCartToken(token);
   }
 
   // Clear cart token
   clearCartToken() {
-    this.cartToken = undefined;
-  }
-
-  /**
-   * Generate HMAC signature for request
-   */
-  private async generateSignature(
-    timestamp: string,
-    method: string,
-    path: string,
-    body: string = ''
-  ): Promise<string> {
-    const payload = [
-      this.SIGNATURE_VERSION,
-      timestamp,
-      method.toUpperCase(),
-      path,
-      await this.hashSHA256(body)
-    ].join('\n');
-
-    return await this.hmacSHA256(payload, this.config.secretKey);
-  }
-
-  /**
-   * SHA-256 hash
-   */
-  private async hashSHA256(data: string): Promise<string> {
-    const encoder = new TextEncoder();
-    const dataBuffer = encoder.encode(data);
-    const hashBuffer = await crypto.subtle.digest('SHA-256', dataBuffer);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
-    return hashArray.map(b => b.toString(16).padStart(2, '0')).join('');
-  }
-
-  /**
-   * HMAC-SHA256 signature
-   */
-  private async hmacSHA256(data: string, secret: string): Promise<string> {
-    const encoder = new TextEncoder();
-    const key = await crypto.subtle.importKey(
-      'raw',
-      encoder.encode(secret),
-      { name: 'HMAC', hash: 'SHA-256' },
-      false,
-      ['sign']
-    );
-
-    const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(data));
-    const signatureArray = Array.from(new Uint8Array(signature));
-    return signatureArray.map(b => b.toString(16).padStart(2, '0')).join('');
+    this.security.setCartToken(null);
   }
 
   /**
@@ -103,10 +70,10 @@ export class HttpClient {
    */
   private async request<T = any>(endpoint: string, options: RequestOptions = {}): Promise<ApiResponse<T>> {
     const {
-      method = 'GET',
       body,
       headers = {}
     } = options;
+    let method = options.method || 'GET';
 
     // Construct full URL
     let fullUrl: string;
@@ -121,46 +88,57 @@ export class HttpClient {
     const url = new URL(fullUrl);
     const path = url.pathname + url.search;
 
-    const timestamp = Math.floor(Date.now() / 1000).toString();
-    const bodyString = body ? JSON.stringify(body) : '';
+    let payload: string | FormData = body ? JSON.stringify(body) : '';
+    let bodyString = payload;
 
-    // Generate HMAC signature
-    const signature = await this.generateSignature(timestamp, method, path, bodyString);
+    // Payloads carrying files go out as multipart, signed through their manifest (see core/multipart)
+    if (isFormData(body) || hasFiles(body)) {
+      const spoofed = spoofMethod(method, isFormData(body) ? body : toFormData(body));
+      method = spoofed.method;
+      payload = spoofed.form;
+      bodyString = await multipartManifest(payload);
+    }
 
-    // Prepare headers with HMAC authentication
-    const requestHeaders: Record<string, string> = {
-      'Content-Type': 'application/json',
+    // Prepare headers (fetch sets the multipart Content-Type itself)
+    const baseHeaders: Record<string, string> = {
+      ...(typeof payload === 'string' ? { 'Content-Type': 'application/json' } : {}),
       'Accept': 'application/json',
-      'X-Public-Key': this.config.publicKey,
-      'X-Signature': signature,
-      'X-Timestamp': timestamp,
-      'X-Signature-Version': this.SIGNATURE_VERSION,
       ...headers
     };
 
-    // Add authentication token when available
-    // Public routes will ignore it, authenticated routes will use it
-    if (this.authToken) {
-      requestHeaders.Authorization = `Bearer ${this.authToken}`;
-    }
-
-    // Add cart token for cart operations
-    if (this.cartToken) {
-      requestHeaders['X-Cart-Token'] = this.cartToken;
-    }
+    // HMAC authentication, plus the auth token (public routes ignore it) and the cart token when set
+    const requestHeaders: Record<string, string> = {
+      ...baseHeaders,
+      ...await this.security.getAuthHeaders(method, path, bodyString, { url: url.toString(), headers: baseHeaders })
+    };
 
     // Make request
-    const response = await fetch(url.toString(), {
+    const init: RequestInit = {
       method,
       headers: requestHeaders,
-      body: bodyString || undefined,
+      body: payload || undefined,
       credentials: 'omit'
-    });
+    };
+    let response: Response;
+    try {
+      response = this.config.transport
+        ? await this.config.transport(url.toString(), init)
+        : await fetch(url.toString(), init);
+    } catch (error: any) {
+      throw new NetworkError(error?.message || 'Network request failed', { cause: error });
+    }
 
     // Handle rate limiting
     if (response.status === 429) {
       const retryAfter = response.headers.get('Retry-After');
-      throw new Error(`Rate limit exceeded. Retry after ${retryAfter} seconds.`);
+      throw new RateLimitError(`Rate limit exceeded. Retry after ${retryAfter} seconds.`, {
+        response: {
+          data: null,
+          status: response.status,
+          statusText: response.statusText
+        },
+        retryAfter: parseRetryAfter(retryAfter)
+      });
     }
 
     // Parse response body
@@ -169,35 +147,34 @@ export class HttpClient {
       responseData = await response.json();
     } catch (parseError) {
       // If JSON parsing fails, create a generic error
-      const error = new Error(`Invalid JSON response: ${response.statusText}`) as any;
-      error.response = {
-        data: { message: `Invalid JSON response: ${response.statusText}` },
-        status: response.status,
-        statusText: response.statusText
-      };
-      error.status = response.status;
-      throw error;
+      throw new StorefrontError(`Invalid JSON response: ${response.statusText}`, {
+        response: {
+          data: { message: `Invalid JSON response: ${response.statusText}` },
+          status: response.status,
+          statusText: response.statusText
+        },
+        cause: parseError
+      });
     }
 
     // Handle errors
     if (!response.ok) {
       // Handle authentication errors
       if (response.status === 401) {
-        this.authToken = undefined;
+        this.security.setAuthToken(null);
       }
 
-      // Create axios-style error for better compatibility
-      const error = new Error(responseData.message || `HTTP ${response.status}: ${response.statusText}`) as any;
-      error.response = {
+      // Typed error with the axios-style `response` kept for compatibility
+      throw createHttpError({
         data: responseData,
         status: response.status,
         statusText: response.statusText
-      };
-      error.status = response.status;
-
-      throw error;
+      });
     }
 
+    // `success: false` is an error even on HTTP 200
+    assertSuccess(responseData, { status: response.status, statusText: response.statusText });
+
     // For successful responses, return the data directly
     // The API might return data wrapped in { data: ... } or directly
     if (responseData && typeof responseData === 'object') {
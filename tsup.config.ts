@@ -3,7 +3,9 @@ import { defineConfig } from 'tsup'
 export default defineConfig({
   entry: {
     index: 'src/main.ts',
-    'secure-storefront-sdk': 'src/secure-storefront-sdk.ts'
+    'secure-storefront-sdk': 'src/secure-storefront-sdk.ts',
+    testing: 'src/testing/index.ts',
+    server: 'src/server/index.ts'
   },
   format: ['cjs', 'esm'],
   dts: true,
@@ -11,5 +13,5 @@ export default defineConfig({
   sourcemap: true,
   clean: true,
   minify: true,
-  external: ['crypto', 'node-fetch', 'axios'],
+  external: ['crypto', 'stream', 'http', 'https', 'tls', 'undici', 'node-fetch', 'axios'],
 })
\ No newline at end of file